@@ -1,151 +1,603 @@
 import * as dotenv from "dotenv";
-import { log, logError } from "./utils/logger";
-import { 
-  getIncreaseTransactions, 
-  getEmployerInfo, 
-  getEmployerBankInfo, 
+import * as fs from "fs";
+import { Command, InvalidArgumentError, Option } from "commander";
+import { log, logError, logWarn } from "./utils/logger";
+import {
+  describeRedaction,
+  getRedactionOptions,
+  RedactionProfile,
+  REDACTION_PROFILES,
+} from "./utils/redaction";
+import { EncryptionOptions, getEncryptionOptions } from "./utils/encryption";
+import { collectIds, readIdsFile, validateIds } from "./utils/ids";
+import {
+  createOutputWriter,
+  DEFAULT_OUTPUT_DIR,
+  OutputFormat,
+  OUTPUT_FORMATS,
+  OutputWriter,
+} from "./utils/output";
+import { DEFAULT_CONCURRENCY } from "./utils/concurrency";
+import { parseDuration } from "./utils/duration";
+import { logRetrySummary } from "./integrations/http-client";
+import { closePostgresStore } from "./integrations/postgres-store";
+import { configureRecording } from "./integrations/recorder";
+import {
+  getIncreaseTransactions,
+  getEmployerInfo,
+  getEmployerBankInfo,
   getWorkerBankInfo,
-  getWorkerInfo
+  getWorkerInfo,
+  getBankAccountTimeline,
+  DEFAULT_CHURN_OPTIONS,
+  getSharedBankAccounts,
+  getAuthorizerIpAnalysis,
+  buildCase,
+  resolveEmployerIds,
+  decryptFile,
+  getDecryptionKeys,
+  verifyEncryptedFiles,
+  createIntegrityManifest,
+  getManifestFileName,
+  IntegrityInputs,
+  verifyManifests,
+  writeManifest,
+  configureEntityStore
 } from "./services";
+import { ServiceOptions, ServiceResult } from "./services/types";
 
 dotenv.config();
 
-const defaultPayrollRunIds = ["payrun_b1e94c03-3e7a-433c-8de0-c11da396bc02"];
-const defaultEmployerIds = [
-  "er_0eb7d20d-e488-4325-9173-6ffd821763ae"
-];
+interface ExportCommandOptions {
+  outputDir: string;
+  format: OutputFormat;
+  redact: RedactionProfile;
+  encrypt?: boolean;
+  recipient?: string;
+}
 
-async function main() {
-  try {
-    const command = process.argv[2];
-
-    if (!command) {
-      log("No command specified. Available commands:");
-      log("  get-increase-transaction <payroll-run-ids>");
-      log("  get-employer-info");
-      log("  get-employer-bank-info");
-      log("  get-worker-bank-info");
-      log("  get-worker-info [--worker-id] <ids...>");
-      log("  run-all");
-      return;
+interface EmployerCommandOptions extends ExportCommandOptions {
+  idsFile?: string;
+  payrollRun: string[];
+}
+
+function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError("Must be a positive integer.");
+  }
+  return parsed;
+}
+
+function parseDate(value: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new InvalidArgumentError("Must be a date such as 2024-01-31.");
+  }
+  return value;
+}
+
+function parseMaxAge(value: string): number {
+  const parsed = parseDuration(value);
+  if (parsed === null) {
+    throw new InvalidArgumentError("Must be a duration such as 30m, 12h or 7d.");
+  }
+  return parsed;
+}
+
+/**
+ * Collects a repeatable option that also accepts comma-separated lists
+ */
+function collectList(value: string, previous: string[] = []): string[] {
+  return previous.concat(
+    value
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0)
+  );
+}
+
+/**
+ * Adds the options shared by every command that writes exports
+ */
+function withExportOptions(command: Command): Command {
+  return command
+    .option("--output-dir <dir>", "directory the files are written into", DEFAULT_OUTPUT_DIR)
+    .addOption(
+      new Option("--format <format>", "output format, xlsx writes a single workbook")
+        .choices(OUTPUT_FORMATS)
+        .default("csv")
+    )
+    .addOption(
+      new Option("--redact <profile>", "PII redaction profile")
+        .choices(REDACTION_PROFILES)
+        .default("none")
+    )
+    .option("--encrypt", "encrypt outputs with UAR_ENCRYPTION_PASSPHRASE")
+    .option("--recipient <public-key.pem>", "encrypt outputs for this RSA public key");
+}
+
+/**
+ * Reads the encryption options of --encrypt or --recipient, undefined when
+ * the outputs are not encrypted
+ */
+function getExportEncryption(
+  options: Partial<ExportCommandOptions>
+): EncryptionOptions | undefined {
+  if (!options.encrypt && !options.recipient) {
+    return undefined;
+  }
+  return getEncryptionOptions(
+    options.recipient ? fs.readFileSync(options.recipient, "utf8") : undefined
+  );
+}
+
+/**
+ * Reads the redaction profile and encryption options of an export command
+ */
+function getRedactionAndEncryption(
+  options: ExportCommandOptions
+): Pick<ServiceOptions, "redaction" | "encryption"> {
+  const redaction = getRedactionOptions(options.redact);
+  const encryption = getExportEncryption(options);
+
+  log(`Redaction profile: ${describeRedaction(redaction)}`);
+  if (encryption) {
+    log("Outputs will be encrypted");
+  }
+  return { redaction, encryption };
+}
+
+/**
+ * Builds the service options from the export command options. The writer
+ * is shared by every dataset of the command and must be finished once they
+ * are all written.
+ */
+function getServiceOptions(
+  options: ExportCommandOptions,
+  workbookName: string
+): ServiceOptions & { writer: OutputWriter } {
+  const { redaction, encryption } = getRedactionAndEncryption(options);
+  const writer = createOutputWriter(
+    options.format,
+    { outputDir: options.outputDir, encryption },
+    workbookName
+  );
+  return { outputDir: options.outputDir, redaction, encryption, writer };
+}
+
+/**
+ * Runs the services of an export command with a shared writer, then writes
+ * <command>.manifest.json with the checksum of every file they produced
+ */
+async function runExport(
+  command: string,
+  options: ExportCommandOptions,
+  inputs: IntegrityInputs,
+  run: (serviceOptions: ServiceOptions) => Promise<ServiceResult[]>
+): Promise<void> {
+  const startedAt = new Date().toISOString();
+  const serviceOptions = getServiceOptions(options, command);
+  const results = await run(serviceOptions);
+  await serviceOptions.writer.finish();
+
+  writeManifest(
+    options.outputDir,
+    getManifestFileName(command),
+    createIntegrityManifest({
+      command,
+      dir: options.outputDir,
+      inputs,
+      startedAt,
+      results,
+    })
+  );
+}
+
+/**
+ * Returns the employer IDs given as arguments or in the IDs file, plus the
+ * owners of any payroll runs given with --payroll-run or in the IDs file
+ */
+async function getEmployerIds(
+  ids: string[],
+  options: EmployerCommandOptions
+): Promise<string[]> {
+  const fileIds = options.idsFile ? readIdsFile(options.idsFile) : undefined;
+  const payrollRunIds = validateIds(
+    [...options.payrollRun, ...(fileIds?.payrollRun || [])],
+    "payrollRun"
+  );
+
+  const employerIds = validateIds(
+    [...ids, ...(fileIds?.employer || [])],
+    "employer"
+  );
+  if (payrollRunIds.length > 0) {
+    const resolution = await resolveEmployerIds(payrollRunIds);
+    for (const employerId of resolution.employerIds) {
+      if (!employerIds.includes(employerId)) {
+        employerIds.push(employerId);
+      }
     }
+  }
+
+  if (employerIds.length === 0) {
+    throw new Error(
+      "No employer IDs provided: pass them as arguments, with --ids-file or with --payroll-run"
+    );
+  }
+  log(`Processing ${employerIds.length} employer IDs`);
+  return employerIds;
+}
 
-    log(`Starting process for command: ${command}`);
+/**
+ * Registers an export command that takes employer IDs, run returning every
+ * dataset it wrote
+ */
+function addEmployerCommand(
+  program: Command,
+  name: string,
+  description: string,
+  run: (employerIds: string[], options: ServiceOptions) => Promise<ServiceResult[]>
+): void {
+  withExportOptions(
+    program
+      .command(name)
+      .description(description)
+      .argument("[employer-ids...]", "employer IDs (er_...)")
+      .option("--ids-file <file>", "TXT or CSV file with employer or payroll run IDs")
+      .option("--payroll-run <ids>", "derive the employers from these payroll runs", collectList, [])
+  ).action(async (ids: string[], options: EmployerCommandOptions) => {
+    const employerIds = await getEmployerIds(ids, options);
+    await runExport(name, options, { employerIds }, (serviceOptions) =>
+      run(employerIds, serviceOptions)
+    );
+  });
+}
 
-    switch (command) {
-      case "run-all": {
-        log("Running all commands with default values");
-        
-        log("1. Running get-increase-transaction");
-        await getIncreaseTransactions(defaultPayrollRunIds);
-        
-        log("2. Running get-employer-info");
-        await getEmployerInfo(defaultEmployerIds);
-        
-        log("3. Running get-employer-bank-info");
-        await getEmployerBankInfo(defaultEmployerIds);
-        
-        log("4. Running get-worker-bank-info");
-        await getWorkerBankInfo(defaultEmployerIds);
-        
-        log("5. Running get-worker-info");
-        await getWorkerInfo(defaultEmployerIds, "employer");
-        
-        break;
+function createProgram(): Command {
+  const program = new Command();
+
+  program
+    .name("uar-data-fetcher")
+    .description("Fetches the data needed to file a UAR with Increase")
+    .option("--store", "save fetched entities into the Postgres store of DATABASE_URL")
+    .option(
+      "--max-age <duration>",
+      "reuse entities stored in DATABASE_URL fetched within this duration (e.g. 12h), implies --store",
+      parseMaxAge
+    )
+    .addOption(
+      new Option(
+        "--record <dir>",
+        "save every HTTP exchange and Neo4j result as fixtures, encrypted like the outputs with --encrypt or --recipient and in plaintext (with PII) otherwise"
+      ).conflicts("replay")
+    )
+    .option("--replay <dir>", "serve HTTP and Neo4j calls from recorded fixtures, offline")
+    .option(
+      "--replay-identity <private-key.pem>",
+      "private key for fixtures recorded with --recipient"
+    )
+    .showHelpAfterError();
+
+  withExportOptions(
+    program
+      .command("get-increase-transaction")
+      .description("Export the Increase transactions of payroll runs")
+      .argument("[payroll-run-ids...]", "payroll run IDs (payrun_...)")
+      .option("--ids-file <file>", "TXT or CSV file with payroll run IDs")
+      .option("--max-pages <n>", "stop after this many Modern Treasury pages", parsePositiveInteger)
+      .option("--max-records <n>", "stop after this many payment orders", parsePositiveInteger)
+      .option("--include-status <statuses>", "only keep these payment order statuses", collectList)
+      .option("--exclude-purpose <purposes>", "replace the excluded payment order purposes", collectList)
+      .option("--concurrency <n>", "payroll runs and Increase lookups in flight", parsePositiveInteger, DEFAULT_CONCURRENCY)
+  ).action(async (ids: string[], options) => {
+    const payrollRunIds = collectIds("payrollRun", ids, options.idsFile);
+    log(`Processing ${payrollRunIds.length} payroll run IDs`);
+    await runExport(
+      "get-increase-transaction",
+      options,
+      { payrollRunIds },
+      async (serviceOptions) => {
+        const result = await getIncreaseTransactions(payrollRunIds, {
+          ...serviceOptions,
+          pagination: { maxPages: options.maxPages, maxRecords: options.maxRecords },
+          filters: {
+            includeStatuses: options.includeStatus,
+            excludePurposes: options.excludePurpose,
+          },
+          concurrency: options.concurrency,
+        });
+        return [result, result.workerSummary];
       }
-      
-      case "get-increase-transaction": {
-        const payrollRunIds = process.argv.slice(3);
-
-        if (payrollRunIds.length === 0) {
-          log("No payroll run IDs provided. Using default list.");
-          // Default payroll run IDs if none provided
-          await getIncreaseTransactions(defaultPayrollRunIds);
-        } else {
-          log(`Processing ${payrollRunIds.length} payroll run IDs`);
-          await getIncreaseTransactions(payrollRunIds);
-        }
-        break;
+    );
+  });
+
+  addEmployerCommand(
+    program,
+    "get-employer-info",
+    "Export employer business information and owners",
+    async (employerIds, options) => {
+      const result = await getEmployerInfo(employerIds, options);
+      return [result, result.owners];
+    }
+  );
+  addEmployerCommand(
+    program,
+    "get-employer-bank-info",
+    "Export employer bank accounts and their authorizers",
+    async (employerIds, options) => {
+      const result = await getEmployerBankInfo(employerIds, options);
+      return [result, result.authorizations];
+    }
+  );
+  addEmployerCommand(
+    program,
+    "get-worker-bank-info",
+    "Export the bank accounts of every worker of the employers",
+    async (employerIds, options) => [await getWorkerBankInfo(employerIds, options)]
+  );
+  addEmployerCommand(
+    program,
+    "find-shared-bank-accounts",
+    "Find bank accounts of the employers or their workers that other workers or employers also use",
+    async (employerIds, options) => [await getSharedBankAccounts(employerIds, options)]
+  );
+  addEmployerCommand(
+    program,
+    "analyze-authorizer-ips",
+    "Classify and locate the client IPs that signed the employers' payment authorizations",
+    async (employerIds, options) => [await getAuthorizerIpAnalysis(employerIds, options)]
+  );
+
+  withExportOptions(
+    program
+      .command("get-worker-info")
+      .description("Export worker personal information, by employer or by worker")
+      .argument("[ids...]", "employer IDs (er_...), or worker IDs (wrk_...) with --worker-id")
+      .option("--worker-id", "the IDs are worker IDs")
+      .option("--ids-file <file>", "TXT or CSV file with employer, payroll run or worker IDs")
+      .option("--payroll-run <ids>", "derive the employers from these payroll runs", collectList, [])
+      .addOption(
+        new Option("--status <status>", "only list active or terminated workers")
+          .choices(["active", "terminated"])
+      )
+      .option("--hired-after <date>", "only list workers hired after this date (YYYY-MM-DD)", parseDate)
+  ).action(async (ids: string[], options) => {
+    if (options.workerId) {
+      if (options.status || options.hiredAfter) {
+        logWarn("--status and --hired-after only apply when listing the workers of employers");
       }
+      const workerIds = collectIds("worker", ids, options.idsFile);
+      log(`Processing ${workerIds.length} worker IDs`);
+      await runExport("get-worker-info", options, { workerIds }, async (serviceOptions) => {
+        const result = await getWorkerInfo(workerIds, "worker", serviceOptions);
+        return [result, result.employment];
+      });
+      return;
+    }
+
+    const employerIds = await getEmployerIds(ids, options);
+    await runExport("get-worker-info", options, { employerIds }, async (serviceOptions) => {
+      const result = await getWorkerInfo(employerIds, "employer", {
+        ...serviceOptions,
+        filters: { status: options.status, hiredAfter: options.hiredAfter },
+      });
+      return [result, result.employment];
+    });
+  });
+
+  withExportOptions(
+    program
+      .command("get-bank-account-timeline")
+      .description("Export when employer bank accounts were added, replaced and deleted, and flag churn")
+      .argument("[employer-ids...]", "employer IDs (er_...)")
+      .option("--ids-file <file>", "TXT or CSV file with employer or payroll run IDs")
+      .option("--payroll-run <ids>", "derive the employers from these payroll runs", collectList, [])
+      .option("--churn-window-days <n>", "days within which --churn-min-changes account changes raise an alert", parsePositiveInteger, DEFAULT_CHURN_OPTIONS.windowDays)
+      .option("--churn-min-changes <n>", "account changes within the churn window that raise an alert", parsePositiveInteger, DEFAULT_CHURN_OPTIONS.minChanges)
+      .option("--debit-window-days <n>", "flag account changes this many days or less before a failed or large debit", parsePositiveInteger, DEFAULT_CHURN_OPTIONS.debitWindowDays)
+      .option("--large-debit-amount <cents>", "debits of at least this amount count as large", parsePositiveInteger, DEFAULT_CHURN_OPTIONS.largeDebitAmount)
+  ).action(async (ids: string[], options) => {
+    const employerIds = await getEmployerIds(ids, options);
+    await runExport("get-bank-account-timeline", options, { employerIds }, async (serviceOptions) => {
+      const result = await getBankAccountTimeline(employerIds, {
+        ...serviceOptions,
+        churn: {
+          windowDays: options.churnWindowDays,
+          minChanges: options.churnMinChanges,
+          debitWindowDays: options.debitWindowDays,
+          largeDebitAmount: options.largeDebitAmount,
+        },
+      });
+      return [result, result.churn];
+    });
+  });
 
-      case "get-employer-info": {
-        const employerIds = process.argv.slice(3);
-
-        if (employerIds.length === 0) {
-          log("No employer IDs provided. Using default list.");
-          // Default payroll run IDs if none provided
-          await getEmployerInfo(defaultEmployerIds);
-        } else {
-          log(`Processing ${employerIds.length} employer IDs`);
-          await getEmployerInfo(employerIds);
-        }
-        break;
+  program
+    .command("resolve-employers")
+    .description("Print the employer that owns each payroll run")
+    .argument("[payroll-run-ids...]", "payroll run IDs (payrun_...)")
+    .option("--ids-file <file>", "TXT or CSV file with payroll run IDs")
+    .action(async (ids: string[], options) => {
+      const payrollRunIds = collectIds("payrollRun", ids, options.idsFile);
+      const resolution = await resolveEmployerIds(payrollRunIds);
+      resolution.employerIdsByPayrollRun.forEach((employerIds, payrollRunId) => {
+        log(`${payrollRunId}: ${employerIds.join(", ") || "(none)"}`);
+      });
+    });
+
+  withExportOptions(
+    program
+      .command("build-case")
+      .description("Write every dataset of a UAR case into <output-dir>/cases/<case-id>/")
+      .requiredOption("--case-id <id>", "case folder name")
+      .option("--employer <ids>", "employer IDs, derived from the payroll runs when omitted", collectList, [])
+      .option("--payroll-run <ids>", "payroll run IDs", collectList, [])
+      .option("--ids-file <file>", "TXT or CSV file with employer and payroll run IDs")
+      .option("--concurrency <n>", "payroll runs and Increase lookups in flight", parsePositiveInteger, DEFAULT_CONCURRENCY)
+  ).action(async (options) => {
+    const fileIds = options.idsFile ? readIdsFile(options.idsFile) : undefined;
+    const employerIds = validateIds(
+      [...options.employer, ...(fileIds?.employer || [])],
+      "employer"
+    );
+    const payrollRunIds = validateIds(
+      [...options.payrollRun, ...(fileIds?.payrollRun || [])],
+      "payrollRun"
+    );
+    // The case builds its own writer so the workbook is named after the case
+    const { redaction, encryption } = getRedactionAndEncryption(options);
+
+    await buildCase({
+      caseId: options.caseId,
+      employerIds,
+      payrollRunIds,
+      concurrency: options.concurrency,
+      outputDir: options.outputDir,
+      format: options.format,
+      redaction,
+      encryption,
+    });
+  });
+
+  withExportOptions(
+    program
+      .command("run-all")
+      .description("Run every export for the given payroll runs and employers")
+      .option("--employer <ids>", "employer IDs, derived from the payroll runs when omitted", collectList, [])
+      .option("--payroll-run <ids>", "payroll run IDs", collectList, [])
+      .option("--ids-file <file>", "TXT or CSV file with employer and payroll run IDs")
+  ).action(async (options) => {
+    const fileIds = options.idsFile ? readIdsFile(options.idsFile) : undefined;
+    const payrollRunIds = validateIds(
+      [...options.payrollRun, ...(fileIds?.payrollRun || [])],
+      "payrollRun"
+    );
+    const employerIds = validateIds(
+      [...options.employer, ...(fileIds?.employer || [])],
+      "employer"
+    );
+    if (employerIds.length === 0 && payrollRunIds.length === 0) {
+      throw new Error(
+        "No employer or payroll run IDs provided: pass them with --employer, --payroll-run or --ids-file"
+      );
+    }
+    if (employerIds.length === 0) {
+      employerIds.push(...(await resolveEmployerIds(payrollRunIds)).employerIds);
+    }
+
+    await runExport("run-all", options, { employerIds, payrollRunIds }, async (serviceOptions) => {
+      const results: ServiceResult[] = [];
+      if (payrollRunIds.length > 0) {
+        log("1. Running get-increase-transaction");
+        const transactions = await getIncreaseTransactions(payrollRunIds, serviceOptions);
+        results.push(transactions, transactions.workerSummary);
+      } else {
+        log("1. Skipping get-increase-transaction, no payroll run IDs given");
       }
 
-      case "get-employer-bank-info": {
-        const employerIds = process.argv.slice(3);
-
-        if (employerIds.length === 0) {
-          log("No employer IDs provided. Using default list.");
-          await getEmployerBankInfo(defaultEmployerIds);
-        } else {
-          log(`Processing ${employerIds.length} employer IDs`);
-          await getEmployerBankInfo(employerIds);
-        }
-        break;
+      log("2. Running get-employer-info");
+      const employers = await getEmployerInfo(employerIds, serviceOptions);
+
+      log("3. Running get-employer-bank-info");
+      const employerBankAccounts = await getEmployerBankInfo(employerIds, serviceOptions);
+
+      log("4. Running get-worker-bank-info");
+      const workerBankAccounts = await getWorkerBankInfo(employerIds, serviceOptions);
+
+      log("5. Running get-worker-info");
+      const workers = await getWorkerInfo(employerIds, "employer", serviceOptions);
+
+      return [
+        ...results,
+        employers,
+        employers.owners,
+        employerBankAccounts,
+        employerBankAccounts.authorizations,
+        workerBankAccounts,
+        workers,
+        workers.employment,
+      ];
+    });
+  });
+
+  program
+    .command("decrypt")
+    .description("Decrypt exported .enc files")
+    .argument("<files...>", "encrypted files")
+    .option("--identity <private-key.pem>", "private key for files encrypted with --recipient")
+    .option("--out <path>", "where to write the plaintext (single file only)")
+    .action((files: string[], options) => {
+      if (options.out && files.length > 1) {
+        throw new Error("--out can only be used with a single file");
       }
-      
-      case "get-worker-bank-info": {
-        const employerIds = process.argv.slice(3);
-
-        if (employerIds.length === 0) {
-          log("No employer IDs provided. Using default list.");
-          await getWorkerBankInfo(defaultEmployerIds);
-        } else {
-          log(`Processing ${employerIds.length} employer IDs`);
-          await getWorkerBankInfo(employerIds);
-        }
-        break;
+      const keys = getDecryptionKeys(options.identity);
+      for (const filePath of files) {
+        decryptFile(filePath, keys, options.out);
       }
+    });
 
-      case "get-worker-info": {
-        const args = process.argv.slice(3);
-        const isWorkerIdMode = args[0] === "--worker-id";
-        
-        // If --worker-id flag is present, skip it for actual IDs
-        const ids = isWorkerIdMode ? args.slice(1) : args;
-        const idType = isWorkerIdMode ? "worker" : "employer";
-        
-        if (ids.length === 0) {
-          if (idType === "worker") {
-            log("No worker IDs provided.");
-            log("Usage: get-worker-info --worker-id <worker-id1> <worker-id2> ...");
-            return;
-          } else {
-            log("No employer IDs provided. Using default list.");
-            await getWorkerInfo(defaultEmployerIds, "employer");
-          }
-        } else {
-          log(`Processing ${ids.length} ${idType} IDs`);
-          await getWorkerInfo(ids, idType);
-        }
-        break;
+  program
+    .command("verify")
+    .description("Check that encrypted files authenticate, without writing plaintext")
+    .argument("<files...>", "encrypted files")
+    .option("--identity <private-key.pem>", "private key for files encrypted with --recipient")
+    .action((files: string[], options) => {
+      if (!verifyEncryptedFiles(files, getDecryptionKeys(options.identity))) {
+        throw new Error("One or more files failed verification");
       }
+    });
 
-      default:
-        log(`Unknown command: ${command}`);
-        log("Available commands:");
-        log("  get-increase-transaction <payroll-run-ids>");
-        log("  get-employer-info");
-        log("  get-employer-bank-info");
-        log("  get-worker-bank-info");
-        log("  get-worker-info [--worker-id] <ids...>");
-        log("  run-all");
-    }
+  program
+    .command("verify-manifest")
+    .description("Check that exported files still match the checksums of their manifests")
+    .argument("<paths...>", "output or case folders, or manifest files")
+    .action((paths: string[]) => {
+      const results = paths.map((target) => verifyManifests(target));
+      if (results.some((valid) => !valid)) {
+        throw new Error("One or more files were modified or are missing");
+      }
+    });
 
+  program.hook("preAction", (_program, actionCommand) => {
+    log(`Starting process for command: ${actionCommand.name()}`);
+    const globalOptions = program.opts();
+    configureEntityStore({
+      enabled: !!globalOptions.store || globalOptions.maxAge !== undefined,
+      maxAgeMs: globalOptions.maxAge,
+    });
+    if (globalOptions.record) {
+      log(`Recording external calls into ${globalOptions.record}`);
+      const encryption = getExportEncryption(actionCommand.opts());
+      if (!encryption) {
+        logWarn("Fixtures are written in plaintext with the fetched PII, pass --encrypt or --recipient to encrypt them");
+      }
+      configureRecording({ mode: "record", dir: globalOptions.record, encryption });
+    } else if (globalOptions.replay) {
+      log(`Replaying external calls from ${globalOptions.replay}`);
+      configureRecording({
+        mode: "replay",
+        dir: globalOptions.replay,
+        decryptionKeys: getDecryptionKeys(globalOptions.replayIdentity),
+      });
+    }
+  });
+  program.hook("postAction", () => {
+    logRetrySummary();
     log("Process completed successfully!");
+  });
+
+  return program;
+}
+
+async function main() {
+  try {
+    await createProgram().parseAsync(process.argv);
+    await closePostgresStore();
   } catch (error) {
+    logRetrySummary();
     logError("An error occurred:", error);
+    await closePostgresStore();
     process.exit(1);
   }
 }
@@ -0,0 +1,96 @@
+import * as fs from "fs";
+import { log, logWarn } from "../utils/logger";
+import { recordSourceRequest } from "./sources";
+
+/**
+ * A participant of the Federal Reserve E-Payments Routing Directory
+ */
+export interface FedAchInstitution {
+  routingNumber: string;
+  // Routing number to use instead, when the Fed lists a replacement
+  newRoutingNumber: string;
+  customerName: string;
+  city: string;
+  state: string;
+}
+
+let directory: Map<string, FedAchInstitution> | null = null;
+let neobankLabels: Map<string, string> | null = null;
+
+/**
+ * Parses the fixed-width FedACHdir.txt download, one 155-character line per
+ * routing number
+ */
+export function parseFedAchDirectory(content: string): Map<string, FedAchInstitution> {
+  const institutions = new Map<string, FedAchInstitution>();
+  for (const line of content.split(/\r?\n/)) {
+    const routingNumber = line.slice(0, 9);
+    if (!/^\d{9}$/.test(routingNumber)) {
+      continue;
+    }
+    const newRoutingNumber = line.slice(26, 35).trim();
+    institutions.set(routingNumber, {
+      routingNumber,
+      newRoutingNumber: /^0+$/.test(newRoutingNumber) ? "" : newRoutingNumber,
+      customerName: line.slice(35, 71).trim(),
+      city: line.slice(107, 127).trim(),
+      state: line.slice(127, 129).trim(),
+    });
+  }
+  return institutions;
+}
+
+/**
+ * Reads the FedACH directory from FEDACH_DIRECTORY_FILE once per run. An
+ * empty directory is returned, with a warning, when it is not configured.
+ */
+export function loadFedAchDirectory(): Map<string, FedAchInstitution> {
+  if (directory) {
+    return directory;
+  }
+
+  const filePath = process.env.FEDACH_DIRECTORY_FILE;
+  if (!filePath) {
+    logWarn("FEDACH_DIRECTORY_FILE is not set, routing numbers are not resolved to institutions");
+    directory = new Map();
+    return directory;
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`FEDACH_DIRECTORY_FILE points to a missing file: ${filePath}`);
+  }
+
+  recordSourceRequest("FedACH directory", filePath);
+  directory = parseFedAchDirectory(fs.readFileSync(filePath, "utf8"));
+  log(`Loaded ${directory.size} routing numbers from ${filePath}`);
+  return directory;
+}
+
+/**
+ * Reads the neobank and prepaid card routing numbers of
+ * NEOBANK_ROUTING_NUMBERS_FILE: one "routing number,label" per line, the
+ * label being optional and lines starting with # ignored
+ */
+export function loadNeobankRoutingNumbers(): Map<string, string> {
+  if (neobankLabels) {
+    return neobankLabels;
+  }
+
+  neobankLabels = new Map();
+  const filePath = process.env.NEOBANK_ROUTING_NUMBERS_FILE;
+  if (!filePath) {
+    return neobankLabels;
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`NEOBANK_ROUTING_NUMBERS_FILE points to a missing file: ${filePath}`);
+  }
+
+  recordSourceRequest("Neobank routing numbers", filePath);
+  for (const line of fs.readFileSync(filePath, "utf8").split(/\r?\n/)) {
+    const [routingNumber, ...label] = line.split(",");
+    if (/^\d{9}$/.test(routingNumber.trim()) && !line.trim().startsWith("#")) {
+      neobankLabels.set(routingNumber.trim(), label.join(",").trim() || "yes");
+    }
+  }
+  log(`Loaded ${neobankLabels.size} neobank and prepaid routing numbers from ${filePath}`);
+  return neobankLabels;
+}
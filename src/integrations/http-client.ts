@@ -0,0 +1,265 @@
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { log, logError, logTrace, logWarn } from "../utils/logger";
+import { createRecordingAdapter, getReplaySource, isReplayedError } from "./recorder";
+import { recordSourceRequest } from "./sources";
+
+export interface HttpClientConfig {
+  // Provider name used in logs and in the retry summary
+  provider: string;
+  timeoutMs: number;
+  maxRetries: number;
+  // First backoff delay, doubled on every retry
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Requests per second sent to the provider, 0 for no limit
+  requestsPerSecond: number;
+}
+
+export interface RetryStats {
+  retries: number;
+  // Requests that still failed after maxRetries
+  exhausted: number;
+}
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+}
+
+const RETRYABLE_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ECONNREFUSED",
+  "EPIPE",
+];
+
+const retryStats = new Map<string, RetryStats>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads a positive integer from the environment, falling back to the default
+ */
+export function readEnvNumber(name: string, defaultValue: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : defaultValue;
+}
+
+/**
+ * Returns the scheme and host of a request URL, e.g. https://api.increase.com
+ */
+function getOrigin(url: string | undefined): string {
+  const match = /^[a-z]+:\/\/[^/?#]+/i.exec(url || "");
+  return match ? match[0] : url || "";
+}
+
+/**
+ * Builds the client config for a provider, letting `<PREFIX>_TIMEOUT_MS`,
+ * `<PREFIX>_RATE_LIMIT_RPS` and `HTTP_MAX_RETRIES` override the defaults
+ */
+export function getProviderConfig(
+  provider: string,
+  envPrefix: string,
+  defaultTimeoutMs: number,
+  defaultRequestsPerSecond: number = 0
+): HttpClientConfig {
+  return {
+    provider,
+    timeoutMs: readEnvNumber(`${envPrefix}_TIMEOUT_MS`, defaultTimeoutMs),
+    requestsPerSecond: readEnvNumber(
+      `${envPrefix}_RATE_LIMIT_RPS`,
+      defaultRequestsPerSecond
+    ),
+    maxRetries: readEnvNumber("HTTP_MAX_RETRIES", 5),
+    baseDelayMs: readEnvNumber("HTTP_RETRY_BASE_DELAY_MS", 500),
+    maxDelayMs: readEnvNumber("HTTP_RETRY_MAX_DELAY_MS", 30000),
+  };
+}
+
+function isRetryable(error: AxiosError): boolean {
+  if (isReplayedError(error)) {
+    return false;
+  }
+  if (!error.response) {
+    return !!error.code && RETRYABLE_NETWORK_CODES.includes(error.code);
+  }
+  return error.response.status === 429 || error.response.status >= 500;
+}
+
+/**
+ * Returns the delay requested by a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(error: AxiosError): number | null {
+  const header = error.response?.headers?.["retry-after"];
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter, unless the server said how long to wait
+ */
+function getRetryDelay(
+  error: AxiosError,
+  retryCount: number,
+  config: HttpClientConfig
+): number {
+  const retryAfter = parseRetryAfter(error);
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, config.maxDelayMs);
+  }
+  const ceiling = Math.min(
+    config.maxDelayMs,
+    config.baseDelayMs * Math.pow(2, retryCount)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Spaces requests to stay under the provider's rate limit, and holds every
+ * request back while the provider has asked us to slow down (429)
+ */
+function createRateLimiter(requestsPerSecond: number) {
+  const interval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+  let nextSlot = 0;
+  let pausedUntil = 0;
+
+  return {
+    async acquire(): Promise<void> {
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot, pausedUntil);
+      nextSlot = slot + interval;
+      if (slot > now) {
+        await sleep(slot - now);
+      }
+    },
+    pause(ms: number): void {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
+
+function getStats(provider: string): RetryStats {
+  let stats = retryStats.get(provider);
+  if (!stats) {
+    stats = { retries: 0, exhausted: 0 };
+    retryStats.set(provider, stats);
+  }
+  return stats;
+}
+
+/**
+ * Creates an axios instance for one provider with its own logging
+ * interceptors, timeout, rate limit and retry policy. Requests failing with
+ * 429, 5xx or a network reset are retried up to maxRetries times.
+ */
+export function createHttpClient(config: HttpClientConfig): AxiosInstance {
+  const client = axios.create({ timeout: config.timeoutMs });
+  client.defaults.adapter = createRecordingAdapter(
+    config.provider,
+    axios.getAdapter(axios.defaults.adapter)
+  );
+  const rateLimiter = createRateLimiter(config.requestsPerSecond);
+
+  client.interceptors.request.use(async (request) => {
+    const replaySource = getReplaySource();
+    if (!replaySource) {
+      await rateLimiter.acquire();
+    }
+    recordSourceRequest(config.provider, replaySource || getOrigin(request.url));
+    logTrace(`Starting ${config.provider} Request:`, {
+      url: request.url,
+      method: request.method,
+      params: request.params,
+      data: request.data,
+    });
+    return request;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      logTrace(`${config.provider} Response:`, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+        data: response.data,
+      });
+      return response;
+    },
+    async (error: AxiosError) => {
+      const request = error.config as RetryableRequestConfig | undefined;
+
+      if (!request || !isRetryable(error)) {
+        logError(`${config.provider} Response Error:`, {
+          message: error.message,
+          response: error.response?.data,
+          status: error.response?.status,
+        });
+        return Promise.reject(error);
+      }
+
+      const retryCount = request.retryCount || 0;
+      const stats = getStats(config.provider);
+
+      if (retryCount >= config.maxRetries) {
+        stats.exhausted++;
+        logError(
+          `${config.provider} request to ${request.url} failed after ${retryCount} retries:`,
+          error.message
+        );
+        return Promise.reject(error);
+      }
+
+      const delay = getRetryDelay(error, retryCount, config);
+      if (error.response?.status === 429) {
+        // Throttled: slow down every concurrent request, not only this one
+        rateLimiter.pause(delay);
+      }
+      request.retryCount = retryCount + 1;
+      stats.retries++;
+      logWarn(
+        `${config.provider} request to ${request.url} failed (${error.response?.status || error.code}), retry ${request.retryCount}/${config.maxRetries} in ${delay}ms`
+      );
+
+      await sleep(delay);
+      return client.request(request);
+    }
+  );
+
+  return client;
+}
+
+/**
+ * Returns retry counts per provider for the current run
+ */
+export function getRetrySummary(): Record<string, RetryStats> {
+  const summary: Record<string, RetryStats> = {};
+  retryStats.forEach((stats, provider) => {
+    summary[provider] = { ...stats };
+  });
+  return summary;
+}
+
+/**
+ * Logs how many retries each provider needed during the run
+ */
+export function logRetrySummary(): void {
+  if (retryStats.size === 0) {
+    return;
+  }
+  log("HTTP retry summary:");
+  retryStats.forEach((stats, provider) => {
+    log(`  ${provider}: ${stats.retries} retries, ${stats.exhausted} requests gave up`);
+  });
+}
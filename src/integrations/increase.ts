@@ -1,62 +1,63 @@
 import axios from "axios";
-import { log, logDebug, logError, logTrace } from "../utils/logger";
+import { log, logDebug, logError } from "../utils/logger";
+import { createHttpClient, getProviderConfig } from "./http-client";
+import { isReplaying } from "./recorder";
 
 export interface IncreaseACHTransfer {
   id: string;
   amount: number;
   transaction_id: string;
+  status: string;
+  statement_descriptor: string;
+  company_name: string | null;
+  individual_name: string | null;
+  account_number: string;
+  routing_number: string;
+  created_at: string;
 }
 
-// Add request interceptor
-axios.interceptors.request.use((request) => {
-  logTrace("Starting Request:", {
-    url: request.url,
-    method: request.method,
-    headers: request.headers,
-    params: request.params,
-    data: request.data,
-  });
-  return request;
-});
+export interface IncreaseTransaction {
+  id: string;
+  account_id: string;
+  // Signed in the minor unit: negative for money leaving the account
+  amount: number;
+  currency: string;
+  created_at: string;
+  description: string;
+  route_id: string | null;
+  route_type: string | null;
+  source: {
+    category: string;
+  };
+}
 
-// Add response interceptor
-axios.interceptors.response.use(
-  (response) => {
-    logTrace("Response:", {
-      status: response.status,
-      statusText: response.statusText,
-      headers: response.headers,
-      data: response.data,
-    });
-    return response;
-  },
-  (error) => {
-    logError("Response Error:", {
-      message: error.message,
-      response: error.response?.data,
-      status: error.response?.status,
-      headers: error.response?.headers,
-    });
-    return Promise.reject(error);
-  }
+const increaseClient = createHttpClient(
+  getProviderConfig("Increase", "INCREASE", 30000, 10)
 );
 
-export async function fetchACHTransfer(
-  achTransactionId: string
-): Promise<IncreaseACHTransfer> {
-  const url = `https://api.increase.com/ach_transfers/${achTransactionId}`;
+/**
+ * Performs an authenticated GET against the Increase API and validates the
+ * response with the given check
+ */
+async function fetchFromIncrease<T>(
+  path: string,
+  resourceName: string,
+  isValid: (data: T) => boolean
+): Promise<T> {
+  const baseUrl = process.env.INCREASE_API_URL || "https://api.increase.com";
+  const url = `${baseUrl.replace(/\/+$/, "")}${path}`;
 
   // Get API key from environment variables
   const apiKey = process.env.INCREASE_API_KEY;
 
-  if (!apiKey) {
+  if (!apiKey && !isReplaying()) {
     throw new Error("INCREASE_API_KEY environment variable is required");
   }
 
   try {
-    logDebug("Calling Increase ACH Transfer endpoint...");
+    logDebug(`Calling Increase ${resourceName} endpoint...`);
 
-    const response = await axios.get<IncreaseACHTransfer>(url, {
+    const response = await increaseClient.get<T>(url, {
       headers: {
         Authorization: `Bearer ${apiKey}`,
       },
@@ -67,24 +68,44 @@ export async function fetchACHTransfer(
       throw new Error(`Increase API returned status ${response.status}`);
     }
 
-    if (!response.data || !response.data.transaction_id) {
+    if (!response.data || !isValid(response.data)) {
       logError("Invalid response format from Increase API");
       throw new Error("Invalid response format from Increase API");
     }
 
-    log("Successfully retrieved ACH transfer from Increase");
+    log(`Successfully retrieved ${resourceName} from Increase`);
     return response.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      logError("Error fetching Increase ACH transfer");
+      logError(`Error fetching Increase ${resourceName}`);
       logError("Status:", error.response?.status);
       logError("Status Text:", error.response?.statusText);
       logError("Response Data:", JSON.stringify(error.response?.data, null, 2));
       logError("Error Message:", error.message);
     } else {
-      logError("Error fetching Increase ACH transfer");
+      logError(`Error fetching Increase ${resourceName}`);
       logError("Error:", error);
     }
     throw error;
   }
 }
+
+export async function fetchACHTransfer(
+  achTransactionId: string
+): Promise<IncreaseACHTransfer> {
+  return fetchFromIncrease<IncreaseACHTransfer>(
+    `/ach_transfers/${encodeURIComponent(achTransactionId)}`,
+    "ACH transfer",
+    (data) => !!data.transaction_id
+  );
+}
+
+export async function fetchTransaction(
+  transactionId: string
+): Promise<IncreaseTransaction> {
+  return fetchFromIncrease<IncreaseTransaction>(
+    `/transactions/${encodeURIComponent(transactionId)}`,
+    "transaction",
+    (data) => !!data.id
+  );
+}
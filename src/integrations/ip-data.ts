@@ -0,0 +1,191 @@
+import * as fs from "fs";
+import * as readline from "readline";
+import { log, logWarn } from "../utils/logger";
+import { toIpKey } from "../utils/ip-address";
+import { recordSourceRequest } from "./sources";
+
+/**
+ * Offline IP data files, never downloaded by the tool:
+ * - IP_GEO_FILE: DB-IP "IP to Country Lite" (start,end,country) or
+ *   "IP to City Lite" (start,end,continent,country,region,city,...) CSV
+ * - IP_ASN_FILE: iptoasn.com ip2asn TSV (start, end, ASN, country, AS name)
+ * - IP_DATACENTER_ASN_FILE, IP_VPN_ASN_FILE: one ASN per line ("AS16509" or
+ *   "16509"), anything after the number and lines starting with # ignored
+ */
+export const IP_DATA_FILES = {
+  geo: "IP_GEO_FILE",
+  asn: "IP_ASN_FILE",
+  datacenterAsns: "IP_DATACENTER_ASN_FILE",
+  vpnAsns: "IP_VPN_ASN_FILE",
+};
+
+export type IpDataFile = keyof typeof IP_DATA_FILES;
+
+export interface IpGeoLocation {
+  country: string;
+  region: string;
+}
+
+export interface IpAsn {
+  asn: number;
+  name: string;
+}
+
+interface IpRange<T> {
+  start: string;
+  end: string;
+  value: T;
+}
+
+/**
+ * Returns the configured path of a data file, or null with a warning when
+ * its variable is not set
+ */
+function getDataFilePath(file: IpDataFile): string | null {
+  const variable = IP_DATA_FILES[file];
+  const filePath = process.env[variable];
+  if (!filePath) {
+    logWarn(`${variable} is not set, skipping the ${file} lookup`);
+    return null;
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`${variable} points to a missing file: ${filePath}`);
+  }
+  recordSourceRequest("IP data file", filePath);
+  return filePath;
+}
+
+/**
+ * Splits a CSV line, dropping the quotes around quoted cells
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  const pattern = /("([^"]*(?:""[^"]*)*)"|[^,]*)(,|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    cells.push(match[2] !== undefined ? match[2].replace(/""/g, '"') : match[1]);
+    if (!match[3]) {
+      break;
+    }
+  }
+  return cells;
+}
+
+/**
+ * Streams a range file and returns the value of the range holding each IP.
+ * Only the looked up IPs are kept in memory, not the database.
+ */
+function lookupRanges<T>(
+  filePath: string,
+  ips: string[],
+  parseLine: (line: string) => IpRange<T> | null
+): Promise<Map<string, T>> {
+  const keys = ips
+    .map((ip) => ({ ip, key: toIpKey(ip) }))
+    .filter((entry) => entry.key)
+    .sort((a, b) => a.key.localeCompare(b.key));
+  const found = new Map<string, T>();
+  if (keys.length === 0) {
+    return Promise.resolve(found);
+  }
+
+  return new Promise((resolve, reject) => {
+    const input = fs.createReadStream(filePath, "utf8");
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    lines.on("line", (line) => {
+      const range = parseLine(line);
+      if (!range) {
+        return;
+      }
+      // First looked up key not below the range start
+      let low = 0;
+      let high = keys.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (keys[middle].key < range.start) {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+      for (let index = low; index < keys.length && keys[index].key <= range.end; index++) {
+        if (!found.has(keys[index].ip)) {
+          found.set(keys[index].ip, range.value);
+        }
+      }
+    });
+    lines.on("close", () => resolve(found));
+    input.on("error", reject);
+  });
+}
+
+function toRange<T>(start: string, end: string, value: T): IpRange<T> | null {
+  const startKey = toIpKey(start);
+  const endKey = toIpKey(end);
+  return startKey && endKey ? { start: startKey, end: endKey, value } : null;
+}
+
+/**
+ * Looks up the country and region of each IP in IP_GEO_FILE
+ */
+export async function lookupIpGeoLocations(ips: string[]): Promise<Map<string, IpGeoLocation>> {
+  const filePath = getDataFilePath("geo");
+  if (!filePath) {
+    return new Map();
+  }
+  log(`Looking up ${ips.length} IPs in ${filePath}`);
+
+  return lookupRanges(filePath, ips, (line) => {
+    const cells = splitCsvLine(line);
+    if (cells.length < 3) {
+      return null;
+    }
+    // Country files have no continent column
+    const location =
+      cells.length === 3
+        ? { country: cells[2], region: "" }
+        : { country: cells[3] || "", region: cells[4] || "" };
+    return toRange(cells[0], cells[1], location);
+  });
+}
+
+/**
+ * Looks up the autonomous system announcing each IP in IP_ASN_FILE.
+ * Ranges with ASN 0 are not routed and left out.
+ */
+export async function lookupIpAsns(ips: string[]): Promise<Map<string, IpAsn>> {
+  const filePath = getDataFilePath("asn");
+  if (!filePath) {
+    return new Map();
+  }
+  log(`Looking up ${ips.length} IPs in ${filePath}`);
+
+  return lookupRanges(filePath, ips, (line) => {
+    const cells = line.split("\t");
+    const asn = parseInt(cells[2], 10);
+    if (cells.length < 3 || !asn) {
+      return null;
+    }
+    return toRange(cells[0], cells[1], { asn, name: cells[4] || "" });
+  });
+}
+
+/**
+ * Reads the ASNs of IP_DATACENTER_ASN_FILE or IP_VPN_ASN_FILE
+ */
+export function loadAsnList(file: "datacenterAsns" | "vpnAsns"): Set<number> {
+  const filePath = getDataFilePath(file);
+  const asns = new Set<number>();
+  if (!filePath) {
+    return asns;
+  }
+
+  for (const line of fs.readFileSync(filePath, "utf8").split(/\r?\n/)) {
+    const match = /^\s*(?:AS)?(\d+)/i.exec(line);
+    if (match && !line.trim().startsWith("#")) {
+      asns.add(parseInt(match[1], 10));
+    }
+  }
+  log(`Loaded ${asns.size} ASNs from ${filePath}`);
+  return asns;
+}
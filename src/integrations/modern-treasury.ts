@@ -1,5 +1,7 @@
 import axios from "axios";
-import { log, logTrace, logError } from "../utils/logger";
+import { log, logDebug, logError } from "../utils/logger";
+import { createHttpClient, getProviderConfig } from "./http-client";
+import { isReplaying } from "./recorder";
 
 export interface PaymentReference {
   id: string;
@@ -18,21 +20,49 @@ export interface ModernTreasuryPaymentOrder {
   object: string;
   live_mode: boolean;
   type: string;
+  subtype: string | null;
+  purpose: string | null;
+  status: string;
   amount: number;
   direction: string;
   effective_date: string;
+  counterparty_id: string | null;
+  receiving_account_id: string | null;
+  metadata: Record<string, string>;
   reference_numbers: PaymentReference[];
 }
 
+export interface ModernTreasuryCounterparty {
+  id: string;
+  object: string;
+  name: string | null;
+  email: string | null;
+  metadata: Record<string, string>;
+}
+
 export interface ModernTreasuryResponse {
   data: ModernTreasuryPaymentOrder[];
 }
 
 export interface FetchPaymentOrdersParams {
   per_page: number;
-  "metadata[payrollRunId]": string;
+  "metadata[payrollRunId]"?: string;
+  "metadata[employerId]"?: string;
+  direction?: "credit" | "debit";
+  after_cursor?: string;
+}
+
+export interface FetchPaymentOrdersOptions {
+  // Stop after this many pages even if Modern Treasury reports more
+  maxPages?: number;
+  // Stop once this many payment orders have been collected
+  maxRecords?: number;
 }
 
+const modernTreasuryClient = createHttpClient(
+  getProviderConfig("Modern Treasury", "MODERN_TREASURY", 30000, 10)
+);
+
 export function extractACHTransferId(
   paymentOrder: ModernTreasuryPaymentOrder
 ): string | null {
@@ -42,66 +72,126 @@ export function extractACHTransferId(
   return reference?.reference_number || null;
 }
 
-export async function fetchPaymentOrders(
-  params: FetchPaymentOrdersParams
-): Promise<ModernTreasuryPaymentOrder[]> {
-  const url = "https://app.moderntreasury.com/api/payment_orders";
+/**
+ * Returns the Modern Treasury API URL, MODERN_TREASURY_API_URL when set
+ */
+function getApiUrl(path: string): string {
+  const baseUrl =
+    process.env.MODERN_TREASURY_API_URL || "https://app.moderntreasury.com/api";
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
 
+/**
+ * Builds the Basic auth header from the Modern Treasury credentials in the environment
+ */
+function getAuthorizationHeader(): string {
   // Get credentials from environment variables
   const username = process.env.MODERN_TREASURY_USERNAME;
   const password = process.env.MODERN_TREASURY_PASSWORD;
 
-  if (!username || !password) {
+  if ((!username || !password) && !isReplaying()) {
     throw new Error(
       "MODERN_TREASURY_USERNAME and MODERN_TREASURY_PASSWORD environment variables are required"
     );
   }
 
+  return `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+}
+
+/**
+ * Fetches every payment order matching the params, following Modern
+ * Treasury's cursor pagination (X-After-Cursor header) until the list is
+ * exhausted or one of the optional guards is reached.
+ */
+export async function fetchPaymentOrders(
+  params: FetchPaymentOrdersParams,
+  options: FetchPaymentOrdersOptions = {}
+): Promise<ModernTreasuryPaymentOrder[]> {
+  const url = getApiUrl("/payment_orders");
+  const authorization = getAuthorizationHeader();
+
   try {
     log("Calling Modern Treasury payment order endpoint...");
 
-    // Add request interceptor
-    axios.interceptors.request.use((request) => {
-      logTrace("Starting Request:", {
-        url: request.url,
-        method: request.method,
-        headers: request.headers,
-        params: request.params,
-        data: request.data,
+    const paymentOrders: ModernTreasuryPaymentOrder[] = [];
+    let afterCursor: string | undefined = params.after_cursor;
+    let pageCount = 0;
+
+    do {
+      const response = await modernTreasuryClient.get<ModernTreasuryPaymentOrder[]>(url, {
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+          Authorization: authorization,
+        },
+        params: { ...params, after_cursor: afterCursor },
       });
-      return request;
-    });
-    // Add response interceptor
-    axios.interceptors.response.use(
-      (response) => {
-        logTrace("Response:", {
-          status: response.status,
-          statusText: response.statusText,
-          headers: response.headers,
-          data: response.data,
-        });
-        return response;
-      },
-      (error) => {
-        logError("Response Error:", {
-          message: error.message,
-          response: error.response?.data,
-          status: error.response?.status,
-          headers: error.response?.headers,
-        });
-        return Promise.reject(error);
+
+      if (response.status !== 200) {
+        logError("Modern Treasury API returned non-200 status:", response.status);
+        throw new Error(`Modern Treasury API returned status ${response.status}`);
+      }
+
+      if (!response.data || !Array.isArray(response.data)) {
+        logError("Invalid response format from Modern Treasury API");
+        throw new Error("Invalid response format from Modern Treasury API");
+      }
+
+      pageCount++;
+      paymentOrders.push(...response.data);
+      afterCursor = response.headers["x-after-cursor"] || undefined;
+      logDebug(
+        `Retrieved page ${pageCount} with ${response.data.length} payment orders`,
+        afterCursor ? `(next cursor: ${afterCursor})` : "(last page)"
+      );
+
+      if (options.maxPages && pageCount >= options.maxPages && afterCursor) {
+        log(`Reached max pages (${options.maxPages}), stopping pagination early`);
+        break;
+      }
+
+      if (options.maxRecords && paymentOrders.length >= options.maxRecords) {
+        if (afterCursor || paymentOrders.length > options.maxRecords) {
+          log(`Reached max records (${options.maxRecords}), stopping pagination early`);
+        }
+        paymentOrders.splice(options.maxRecords);
+        break;
       }
+    } while (afterCursor);
+
+    log(
+      `Walked ${pageCount} page(s) and retrieved ${paymentOrders.length} payment orders from Modern Treasury`
     );
+    return paymentOrders;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      logError("Error fetching Modern Treasury payment orders");
+      logError("Status:", error.response?.status);
+      logError("Status Text:", error.response?.statusText);
+      logError("Response Data:", JSON.stringify(error.response?.data, null, 2));
+      logError("Error Message:", error.message);
+    } else {
+      logError("Error fetching Modern Treasury payment orders");
+      logError("Error:", error);
+    }
+    throw error;
+  }
+}
 
-    const response = await axios.get<ModernTreasuryResponse>(url, {
+export async function fetchCounterparty(
+  counterpartyId: string
+): Promise<ModernTreasuryCounterparty> {
+  const url = getApiUrl(`/counterparties/${encodeURIComponent(counterpartyId)}`);
+  const authorization = getAuthorizationHeader();
+
+  try {
+    logDebug("Calling Modern Treasury counterparty endpoint...");
+
+    const response = await modernTreasuryClient.get<ModernTreasuryCounterparty>(url, {
       headers: {
-        "Content-Type": "application/json",
         Accept: "application/json",
-        Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString(
-          "base64"
-        )}`,
+        Authorization: authorization,
       },
-      params,
     });
 
     if (response.status !== 200) {
@@ -109,22 +199,21 @@ export async function fetchPaymentOrders(
       throw new Error(`Modern Treasury API returned status ${response.status}`);
     }
 
-    if (!response.data || !Array.isArray(response.data)) {
+    if (!response.data || !response.data.id) {
       logError("Invalid response format from Modern Treasury API");
       throw new Error("Invalid response format from Modern Treasury API");
     }
 
-    log("Successfully retrieved payment orders from Modern Treasury");
     return response.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      logError("Error fetching Modern Treasury payment orders");
+      logError("Error fetching Modern Treasury counterparty");
       logError("Status:", error.response?.status);
       logError("Status Text:", error.response?.statusText);
       logError("Response Data:", JSON.stringify(error.response?.data, null, 2));
       logError("Error Message:", error.message);
     } else {
-      logError("Error fetching Modern Treasury payment orders");
+      logError("Error fetching Modern Treasury counterparty");
       logError("Error:", error);
     }
     throw error;
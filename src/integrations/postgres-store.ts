@@ -0,0 +1,206 @@
+import { Pool } from "pg";
+import { logDebug } from "../utils/logger";
+
+export interface StoredEntity<T> {
+  id: string;
+  data: T;
+}
+
+export interface StoreScope {
+  // Parent the entities were listed under
+  scopeId: string;
+  // Position of the first entity in the listing, for the pages after the first
+  firstPosition?: number;
+  // Only one page of the listing, so the scope is not recorded as listed
+  partial?: boolean;
+}
+
+// Table of each stored entity type; scope_id is the parent the entity was
+// listed under (employer, payroll run...), "" for lookups by ID, and
+// position its rank in that listing
+export const STORE_TABLES = {
+  paymentOrder: "payment_orders",
+  achTransfer: "ach_transfers",
+  transaction: "increase_transactions",
+  counterparty: "counterparties",
+  employer: "employers",
+  worker: "workers",
+  employerBankAccount: "employer_bank_accounts",
+  workerBankAccount: "worker_bank_accounts",
+  // Every authorization signature of an employer bank account, by account ID
+  paymentAuthorization: "payment_authorizations",
+};
+
+export type StoreEntityType = keyof typeof STORE_TABLES;
+
+let pool: Pool | null = null;
+let schemaReady: Promise<void> | null = null;
+
+/**
+ * Whether DATABASE_URL points the tool at a Postgres store
+ */
+export function isStoreConfigured(): boolean {
+  return !!process.env.DATABASE_URL;
+}
+
+/**
+ * Returns the store host and database, without credentials, for logs and
+ * manifests
+ */
+export function describeStore(): string {
+  const match = /@([^/?]+)(\/[^?]*)?/.exec(process.env.DATABASE_URL || "");
+  return match ? `postgres://${match[1]}${match[2] || ""}` : "postgres";
+}
+
+function createSchema(client: Pool): Promise<void> {
+  const statements = Object.keys(STORE_TABLES).map((type) => {
+    const table = STORE_TABLES[type as StoreEntityType];
+    return `
+      CREATE TABLE IF NOT EXISTS ${table} (
+        source_id TEXT NOT NULL,
+        scope_id TEXT NOT NULL DEFAULT '',
+        data JSONB NOT NULL,
+        fetched_at TIMESTAMPTZ NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (source_id, scope_id)
+      );
+      ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+      CREATE INDEX IF NOT EXISTS ${table}_scope_idx ON ${table} (scope_id, fetched_at);`;
+  });
+  statements.push(`
+    CREATE TABLE IF NOT EXISTS fetch_scopes (
+      entity_type TEXT NOT NULL,
+      scope_id TEXT NOT NULL,
+      fetched_at TIMESTAMPTZ NOT NULL,
+      PRIMARY KEY (entity_type, scope_id)
+    );`);
+  return client.query(statements.join("\n")).then(() => undefined);
+}
+
+/**
+ * Returns the connection pool, creating the tables on first use
+ */
+async function getPool(): Promise<Pool> {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL environment variable is required to use the store");
+    }
+    logDebug("Connecting to the Postgres store");
+    pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  }
+  if (!schemaReady) {
+    schemaReady = createSchema(pool);
+  }
+  await schemaReady;
+  return pool;
+}
+
+/**
+ * Loads the entities with these IDs fetched at or after minFetchedAt, the
+ * most recent copy of each
+ */
+export async function loadEntities<T>(
+  type: StoreEntityType,
+  ids: string[],
+  minFetchedAt: Date
+): Promise<Map<string, T>> {
+  const client = await getPool();
+  const result = await client.query(
+    `SELECT DISTINCT ON (source_id) source_id, data
+       FROM ${STORE_TABLES[type]}
+      WHERE source_id = ANY($1) AND fetched_at >= $2
+      ORDER BY source_id, fetched_at DESC`,
+    [ids, minFetchedAt]
+  );
+
+  const entities = new Map<string, T>();
+  for (const row of result.rows) {
+    entities.set(row.source_id, row.data as T);
+  }
+  return entities;
+}
+
+/**
+ * Loads the entities last listed under a scope in the order they were
+ * listed, or null when the scope was not listed since minFetchedAt
+ */
+export async function loadScope<T>(
+  type: StoreEntityType,
+  scopeId: string,
+  minFetchedAt: Date
+): Promise<T[] | null> {
+  const client = await getPool();
+  const scope = await client.query(
+    `SELECT fetched_at FROM fetch_scopes
+      WHERE entity_type = $1 AND scope_id = $2 AND fetched_at >= $3`,
+    [type, scopeId, minFetchedAt]
+  );
+  if (scope.rows.length === 0) {
+    return null;
+  }
+
+  // Entities dropped from the list since are older than the scope itself
+  const result = await client.query(
+    `SELECT data FROM ${STORE_TABLES[type]}
+      WHERE scope_id = $1 AND fetched_at >= $2
+      ORDER BY position, source_id`,
+    [scopeId, scope.rows[0].fetched_at]
+  );
+  return result.rows.map((row) => row.data as T);
+}
+
+/**
+ * Upserts entities, listed under a scope when given, and records the scope
+ * as fully listed unless the entities are only one page of the listing
+ */
+export async function saveEntities<T>(
+  type: StoreEntityType,
+  entities: Array<StoredEntity<T>>,
+  fetchedAt: Date,
+  scope?: StoreScope
+): Promise<void> {
+  const scopeId = scope?.scopeId || "";
+  const firstPosition = scope?.firstPosition || 0;
+  const client = await (await getPool()).connect();
+  try {
+    await client.query("BEGIN");
+    for (const [index, entity] of entities.entries()) {
+      await client.query(
+        `INSERT INTO ${STORE_TABLES[type]} (source_id, scope_id, data, fetched_at, position)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (source_id, scope_id)
+         DO UPDATE SET data = EXCLUDED.data, fetched_at = EXCLUDED.fetched_at,
+                       position = EXCLUDED.position`,
+        [entity.id, scopeId, JSON.stringify(entity.data), fetchedAt, firstPosition + index]
+      );
+    }
+    if (scopeId && !scope?.partial) {
+      await client.query(
+        `INSERT INTO fetch_scopes (entity_type, scope_id, fetched_at)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (entity_type, scope_id)
+         DO UPDATE SET fetched_at = EXCLUDED.fetched_at`,
+        [type, scopeId, fetchedAt]
+      );
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+  logDebug(`Stored ${entities.length} ${STORE_TABLES[type]}`);
+}
+
+/**
+ * Close the Postgres pool
+ */
+export async function closePostgresStore(): Promise<void> {
+  if (pool) {
+    await pool.end();
+    pool = null;
+    schemaReady = null;
+    logDebug("Postgres store connection closed");
+  }
+}
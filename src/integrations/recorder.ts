@@ -0,0 +1,331 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import {
+  isDate,
+  isDateTime,
+  isDuration,
+  isInt,
+  isLocalDateTime,
+  isLocalTime,
+  isNode,
+  isPoint,
+  isRelationship,
+  isTime,
+  isUnboundRelationship,
+} from "neo4j-driver";
+import {
+  decryptBuffer,
+  DecryptionKeys,
+  encryptBuffer,
+  ENCRYPTED_FILE_EXTENSION,
+  EncryptionOptions,
+} from "../utils/encryption";
+import { logDebug } from "../utils/logger";
+
+export type RecordingMode = "record" | "replay";
+
+export interface RecordingOptions {
+  mode: RecordingMode;
+  // Folder holding the fixtures, one JSON file per exchange
+  dir: string;
+  // Encrypts recorded fixtures like the exports, plaintext when undefined
+  encryption?: EncryptionOptions;
+  // Keys for replaying encrypted fixtures
+  decryptionKeys?: DecryptionKeys;
+}
+
+interface HttpFixture {
+  provider: string;
+  request: {
+    method: string;
+    url: string;
+    params: unknown;
+    data: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+}
+
+interface Neo4jFixture {
+  cypher: string;
+  params: Record<string, unknown>;
+  records: unknown[];
+}
+
+// Response headers never written to a fixture
+const SECRET_HEADER_PATTERN = /cookie|auth|token|key|secret/i;
+
+let recording: RecordingOptions | null = null;
+// Errors rebuilt from fixtures: a retry would replay the same response
+const replayedErrors = new WeakSet<object>();
+
+/**
+ * Turns recording or replay on for the rest of the run, or off with null
+ */
+export function configureRecording(options: RecordingOptions | null): void {
+  recording = options;
+}
+
+export function isReplaying(): boolean {
+  return recording?.mode === "replay";
+}
+
+/**
+ * Returns the replayed fixture folder as a source URL, null when live
+ */
+export function getReplaySource(): string | null {
+  return isReplaying() && recording ? `replay:${recording.dir}` : null;
+}
+
+/**
+ * Whether an error was replayed from a fixture, so it must not be retried
+ */
+export function isReplayedError(error: unknown): boolean {
+  return !!error && typeof error === "object" && replayedErrors.has(error);
+}
+
+/**
+ * JSON with object keys sorted, so equal requests get equal fixture names
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const object = value as Record<string, unknown>;
+    return `{${Object.keys(object)
+      .filter((key) => object[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(object[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function getFixturePath(kind: string, group: string, identity: unknown): string {
+  if (!recording) {
+    throw new Error("Recording is not configured");
+  }
+  const hash = crypto
+    .createHash("sha256")
+    .update(stableStringify(identity))
+    .digest("hex")
+    .slice(0, 20);
+  const slug = group.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  return path.join(recording.dir, kind, slug, `${hash}.json`);
+}
+
+/**
+ * Writes a fixture, encrypted into <fixture>.json.enc when the run encrypts
+ * its exports
+ */
+function writeFixture(fixturePath: string, fixture: unknown): void {
+  const json = Buffer.from(JSON.stringify(fixture, null, 2) + "\n", "utf8");
+  const encryption = recording?.encryption;
+  const filePath = encryption ? fixturePath + ENCRYPTED_FILE_EXTENSION : fixturePath;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, encryption ? encryptBuffer(json, encryption) : json);
+  logDebug(`Recorded fixture ${filePath}`);
+}
+
+function readFixture<T>(fixturePath: string, description: string): T {
+  const encryptedPath = fixturePath + ENCRYPTED_FILE_EXTENSION;
+  if (fs.existsSync(encryptedPath)) {
+    const data = decryptBuffer(fs.readFileSync(encryptedPath), recording?.decryptionKeys || {});
+    return JSON.parse(data.toString("utf8"));
+  }
+  if (!fs.existsSync(fixturePath)) {
+    throw new Error(`No recorded fixture for ${description} (${fixturePath})`);
+  }
+  return JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== "string") {
+    return body ?? null;
+  }
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    return body;
+  }
+}
+
+function getHttpIdentity(config: InternalAxiosRequestConfig) {
+  return {
+    method: (config.method || "get").toUpperCase(),
+    url: config.url || "",
+    params: config.params ?? null,
+    data: parseBody(config.data),
+  };
+}
+
+/**
+ * Wraps the HTTP adapter of a provider client: when recording, each
+ * response is saved without request headers or secret response headers;
+ * when replaying, responses come from the fixtures and nothing is sent.
+ */
+export function createRecordingAdapter(
+  provider: string,
+  adapter: AxiosAdapter
+): AxiosAdapter {
+  return async (config) => {
+    if (!recording) {
+      return adapter(config);
+    }
+
+    const identity = getHttpIdentity(config);
+    const fixturePath = getFixturePath("http", provider, identity);
+
+    if (recording.mode === "replay") {
+      const fixture = readFixture<HttpFixture>(
+        fixturePath,
+        `${identity.method} ${identity.url}`
+      );
+      const response: AxiosResponse = {
+        data: JSON.stringify(fixture.response.data),
+        status: fixture.response.status,
+        statusText: fixture.response.statusText,
+        headers: fixture.response.headers,
+        config,
+        request: null,
+      };
+      const validateStatus = config.validateStatus;
+      if (validateStatus && !validateStatus(response.status)) {
+        const error = new AxiosError(
+          `Request failed with status code ${response.status}`,
+          response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+          config,
+          null,
+          response
+        );
+        replayedErrors.add(error);
+        throw error;
+      }
+      return response;
+    }
+
+    const save = (response: AxiosResponse) => {
+      const headers: Record<string, string> = {};
+      const rawHeaders = response.headers as Record<string, unknown>;
+      for (const name of Object.keys(rawHeaders)) {
+        if (!SECRET_HEADER_PATTERN.test(name) && rawHeaders[name] != null) {
+          headers[name] = String(rawHeaders[name]);
+        }
+      }
+      const fixture: HttpFixture = {
+        provider,
+        request: identity,
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          data: parseBody(response.data),
+        },
+      };
+      writeFixture(fixturePath, fixture);
+    };
+
+    try {
+      const response = await adapter(config);
+      save(response);
+      return response;
+    } catch (error) {
+      // Error responses are recorded too; a later retry overwrites them
+      if (error instanceof AxiosError && error.response) {
+        save(error.response);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Converts Neo4j values to the plain values they are written as in the
+ * exports, so live, recorded and replayed results match: integers to
+ * numbers (strings beyond the safe range), temporal and spatial values to
+ * their ISO strings, nodes and relationships to their properties. Other
+ * objects are walked through their own properties.
+ */
+function toPlainValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  if (isInt(value)) {
+    return value.inSafeRange() ? value.toNumber() : value.toString();
+  }
+  if (
+    isDate(value) ||
+    isDateTime(value) ||
+    isLocalDateTime(value) ||
+    isTime(value) ||
+    isLocalTime(value) ||
+    isDuration(value) ||
+    isPoint(value)
+  ) {
+    return value.toString();
+  }
+  if (isNode(value) || isRelationship(value) || isUnboundRelationship(value)) {
+    return toPlainValue(value.properties);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  const object = value as Record<string, unknown>;
+  const plain: Record<string, unknown> = {};
+  for (const key of Object.keys(object)) {
+    plain[key] = toPlainValue(object[key]);
+  }
+  return plain;
+}
+
+/**
+ * Runs a Neo4j query through the recorder: records its results, serves them
+ * from the fixtures when replaying, or just runs it otherwise. Results are
+ * plain values in every mode.
+ */
+export async function withNeo4jRecording<T>(
+  cypher: string,
+  params: Record<string, unknown>,
+  run: () => Promise<T[]>
+): Promise<T[]> {
+  if (!recording) {
+    return (await run()).map(toPlainValue) as T[];
+  }
+
+  const normalizedCypher = cypher.replace(/\s+/g, " ").trim();
+  const fixturePath = getFixturePath("neo4j", "queries", {
+    cypher: normalizedCypher,
+    params,
+  });
+
+  if (recording.mode === "replay") {
+    return readFixture<Neo4jFixture>(
+      fixturePath,
+      `Neo4j query ${normalizedCypher.slice(0, 60)}...`
+    ).records as T[];
+  }
+
+  const records = (await run()).map(toPlainValue);
+  const fixture: Neo4jFixture = {
+    cypher: normalizedCypher,
+    params,
+    records,
+  };
+  writeFixture(fixturePath, fixture);
+  return records as T[];
+}
@@ -1,5 +1,7 @@
 import axios from "axios";
-import { log, logDebug, logError, logTrace } from "../utils/logger";
+import { log, logDebug, logError } from "../utils/logger";
+import { createHttpClient, getProviderConfig, readEnvNumber } from "./http-client";
+import { isReplaying } from "./recorder";
 
 export interface SalsaGraphQLResponse<T> {
   data: T;
@@ -18,39 +20,78 @@ export interface SalsaQueryParams {
   variables?: Record<string, any>;
 }
 
-// Add request interceptor for logging
-axios.interceptors.request.use((request) => {
-  logTrace("Starting Salsa GraphQL Request:", {
-    url: request.url,
-    method: request.method,
-    headers: request.headers,
-    data: request.data,
-  });
-  return request;
-});
-
-// Add response interceptor for logging
-axios.interceptors.response.use(
-  (response) => {
-    logTrace("Salsa GraphQL Response:", {
-      status: response.status,
-      statusText: response.statusText,
-      headers: response.headers,
-      data: response.data,
-    });
-    return response;
-  },
-  (error) => {
-    logError("Salsa GraphQL Response Error:", {
-      message: error.message,
-      response: error.response?.data,
-      status: error.response?.status,
-      headers: error.response?.headers,
-    });
-    return Promise.reject(error);
-  }
+const salsaClient = createHttpClient(
+  getProviderConfig("Salsa GraphQL", "SALSA", 60000)
 );
 
+// Workers resolved per request by fetchWorkersByIds
+const DEFAULT_WORKER_BATCH_SIZE = 25;
+// Workers per page when listing the workers of an employer
+const DEFAULT_WORKER_PAGE_SIZE = 100;
+// Most recent pay statements summarized per worker
+const DEFAULT_PAY_STATEMENT_COUNT = 12;
+
+const ADDRESS_FRAGMENT = `
+  fragment AddressFields on Address {
+    addressLine1
+    addressLine2
+    locality
+    postalCode
+    administrativeArea
+    country
+  }
+`;
+
+const GOVERNMENT_IDENTIFIER_FRAGMENT = `
+  fragment GovernmentIdentifierFields on GovernmentIdentifier {
+    id
+    value(unmasked: true)
+    type {
+      id
+      name
+    }
+  }
+`;
+
+// Queries spreading WorkerFields declare $payStatementCount: Int!
+const WORKER_FRAGMENT = `
+  fragment WorkerFields on Worker {
+    id
+    firstName
+    lastName
+    employment {
+      status
+      hireDate
+      terminationDate
+      jobTitle
+      payRate {
+        amount
+        currency
+        period
+      }
+    }
+    payStatements(last: $payStatementCount) {
+      payDate
+      grossPay
+      netPay
+    }
+    personalInformation {
+      dateOfBirth
+      homeAddress {
+        id
+        address {
+          ...AddressFields
+        }
+      }
+      governmentIdentifiers {
+        ...GovernmentIdentifierFields
+      }
+    }
+  }
+  ${ADDRESS_FRAGMENT}
+  ${GOVERNMENT_IDENTIFIER_FRAGMENT}
+`;
+
 // Domain models
 export interface EmployerInfo {
   employerId: string;
@@ -62,6 +103,37 @@ export interface EmployerInfo {
   city: string;
   state: string;
   postalCode: string;
+  taxIdentifiers?: EmployerTaxIdentifier[];
+  incorporationDate?: string;
+  incorporationState?: string;
+  contactEmail?: string;
+  contactPhone?: string;
+  // Beneficial owners and officers
+  owners?: EmployerOwner[];
+}
+
+export interface EmployerTaxIdentifier {
+  jurisdiction: string;
+  // Salsa type key, e.g. key:taxid:us:fein
+  type: string;
+  name: string;
+  value: string;
+}
+
+export interface EmployerOwner {
+  firstName: string;
+  lastName: string;
+  title: string;
+  // e.g. OWNER, OFFICER
+  roles: string[];
+  ownershipPercentage: number | null;
+  dateOfBirth: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
 }
 
 export interface WorkerInfo {
@@ -78,6 +150,42 @@ export interface WorkerInfo {
   postalCode: string;
   country: string;
   ssn?: string;
+  employmentStatus?: string;
+  hireDate?: string;
+  terminationDate?: string;
+  jobTitle?: string;
+  // Decimal amount per payRatePeriod, e.g. "25.00" per HOUR
+  payRate?: string;
+  payRateCurrency?: string;
+  payRatePeriod?: string;
+  recentPayments?: WorkerPaySummary;
+}
+
+export interface WorkerPaySummary {
+  // Pay statements summarized, at most SALSA_PAY_STATEMENT_COUNT
+  count: number;
+  grossPay: string;
+  netPay: string;
+  firstPayDate: string;
+  lastPayDate: string;
+}
+
+export interface WorkerFilters {
+  // Only active or only terminated workers, both when unset
+  status?: "active" | "terminated";
+  // Only workers hired after this date (YYYY-MM-DD)
+  hiredAfter?: string;
+}
+
+export interface FetchWorkersOptions extends WorkerFilters {
+  // Workers per page, defaults to SALSA_WORKER_PAGE_SIZE or 100
+  pageSize?: number;
+}
+
+export interface WorkerBatchResult {
+  workers: Map<string, WorkerInfo>;
+  // Error message of each worker ID that could not be resolved
+  errors: Map<string, string>;
 }
 
 interface EmployerApiResponse {
@@ -85,7 +193,27 @@ interface EmployerApiResponse {
     id: string;
     businessName: string;
     legalName: string;
+    incorporationDate: string | null;
+    incorporationState: string | null;
+    businessContact: {
+      email: string | null;
+      phoneNumber: string | null;
+    } | null;
+    controllingPersons: Array<{
+      id: string;
+      firstName: string;
+      lastName: string;
+      title: string | null;
+      roles: string[];
+      ownershipPercentage: number | null;
+      dateOfBirth: string | null;
+      address: WorkerAddress | null;
+    }> | null;
     taxesSetupByJurisdiction: Array<{
+      jurisdiction?: {
+        id: string;
+        name: string;
+      };
       taxIdentifiers: Array<{
         id: string;
         type: {
@@ -116,6 +244,22 @@ interface WorkerApiResponse {
       id: string;
       businessName: string;
     };
+    employment: {
+      status: string;
+      hireDate: string | null;
+      terminationDate: string | null;
+      jobTitle: string | null;
+      payRate: {
+        amount: string;
+        currency: string;
+        period: string;
+      } | null;
+    } | null;
+    payStatements: Array<{
+      payDate: string;
+      grossPay: string;
+      netPay: string;
+    }> | null;
     personalInformation: {
       dateOfBirth: string;
       homeAddress: {
@@ -139,57 +283,58 @@ interface WorkerApiResponse {
       }>;
     };
   };
-  employer?: {
+}
+
+interface EmployerWorkersApiResponse {
+  employer: {
     id: string;
-    workers: Array<{
-      id: string;
-      firstName: string;
-      lastName: string;
-      personalInformation: {
-        dateOfBirth: string;
-        homeAddress: {
-          id: string;
-          address: {
-            addressLine1: string;
-            addressLine2: string;
-            locality: string;
-            postalCode: string;
-            administrativeArea: string;
-            country: string;
-          };
-        };
-        governmentIdentifiers: Array<{
-          id: string;
-          value: string;
-          type: {
-            id: string;
-            name: string;
-          };
-        }>;
+    businessName: string;
+    workers: {
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
       };
-    }>;
-  };
+      edges: Array<{
+        node: EmployerWorker;
+      }>;
+    };
+  } | null;
+}
+
+interface PayrollRunApiResponse {
+  payrollRun: {
+    id: string;
+    employer: {
+      id: string;
+    } | null;
+  } | null;
 }
 
 // Type for a single worker response
 type WorkerDetails = NonNullable<WorkerApiResponse['worker']>;
-// Type for a worker within employer response
-type EmployerWorker = NonNullable<WorkerApiResponse['employer']>['workers'][0];
+// Type for an address selected with AddressFields
+type WorkerAddress = WorkerDetails["personalInformation"]["homeAddress"]["address"];
+// Type for a worker selected with WorkerFields
+type EmployerWorker = Omit<WorkerDetails, "employer">;
 
-export async function executeGraphQLQuery<T>(
+/**
+ * Posts a query to Salsa and returns the whole response body, partial data
+ * and errors included
+ */
+async function sendGraphQLQuery<T>(
   params: SalsaQueryParams
-): Promise<T> {
+): Promise<SalsaGraphQLResponse<T>> {
   try {
     logDebug("Executing Salsa GraphQL query...");
     
     const apiUrl =
       process.env.SALSA_API_URL || "https://api.internal.salsa.dev/api/graphql";
     const authToken = process.env.SALSA_AUTH_TOKEN;
-    if (!authToken) {
+    if (!authToken && !isReplaying()) {
       throw new Error("SALSA_AUTH_TOKEN environment variable is required");
     }
 
-    const response = await axios.post<SalsaGraphQLResponse<T>>(apiUrl, params, {
+    const response = await salsaClient.post<SalsaGraphQLResponse<T>>(apiUrl, params, {
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${authToken}`,
@@ -200,20 +345,12 @@ export async function executeGraphQLQuery<T>(
       logError("Salsa API returned non-200 status:", response.status);
       throw new Error(`Salsa API returned status ${response.status}`);
     }
-    if (response.data.errors && response.data.errors.length > 0) {
-      const errorMessages = response.data.errors
-        .map((e) => e.message)
-        .join(", ");
-      logError("Salsa GraphQL returned errors:", errorMessages);
-      throw new Error(`Salsa GraphQL errors: ${errorMessages}`);
-    }
-    if (!response.data.data) {
+    if (!response.data.data && !response.data.errors?.length) {
       logError("Invalid response format from Salsa API");
       throw new Error("Invalid response format from Salsa API");
     }
 
-    log("Successfully executed Salsa GraphQL query");
-    return response.data.data;
+    return response.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
       logError("Error executing Salsa GraphQL query");
@@ -235,16 +372,55 @@ export async function executeGraphQLQuery<T>(
   }
 }
 
+export async function executeGraphQLQuery<T>(
+  params: SalsaQueryParams
+): Promise<T> {
+  const response = await sendGraphQLQuery<T>(params);
+
+  if (response.errors && response.errors.length > 0) {
+    const errorMessages = response.errors
+      .map((e) => e.message)
+      .join(", ");
+    logError("Salsa GraphQL returned errors:", errorMessages);
+    throw new Error(`Salsa GraphQL errors: ${errorMessages}`);
+  }
+
+  log("Successfully executed Salsa GraphQL query");
+  return response.data;
+}
+
 export async function fetchEmployerById(
   employerId: string
 ): Promise<EmployerInfo> {
   const employerQuery = `
-    query Employer {
-      employer(id: "${employerId}") {
+    query Employer($employerId: ID!) {
+      employer(id: $employerId) {
         id
         businessName
         legalName
+        incorporationDate
+        incorporationState
+        businessContact {
+          email
+          phoneNumber
+        }
+        controllingPersons {
+          id
+          firstName
+          lastName
+          title
+          roles
+          ownershipPercentage
+          dateOfBirth
+          address {
+            ...AddressFields
+          }
+        }
         taxesSetupByJurisdiction {
+          jurisdiction {
+            id
+            name
+          }
           taxIdentifiers {
             id
             type {
@@ -256,44 +432,86 @@ export async function fetchEmployerById(
         }
         filingAddress {
           address {
-            addressLine1
-            addressLine2
-            administrativeArea
-            locality
-            postalCode
+            ...AddressFields
           }
         }
       }
     }
+    ${ADDRESS_FRAGMENT}
   `;
 
   // Execute GraphQL query
   const response = await executeGraphQLQuery<EmployerApiResponse>({
     query: employerQuery,
+    variables: { employerId },
   });
 
   // Extract EIN and Address information
-  const ein = extractEin(response.employer.taxesSetupByJurisdiction);
-  const addressInfo = formatAddress(response.employer.filingAddress?.address);
+  const employer = response.employer;
+  const ein = extractEin(employer.taxesSetupByJurisdiction);
+  const addressInfo = formatAddress(employer.filingAddress?.address);
 
   // Map API response to our domain model
   return {
-    employerId: response.employer.id,
-    businessName: response.employer.businessName,
-    legalName: response.employer.legalName,
+    employerId: employer.id,
+    businessName: employer.businessName,
+    legalName: employer.legalName,
     ein: ein,
     addressLine1: addressInfo.addressLine1,
     addressLine2: addressInfo.addressLine2,
     city: addressInfo.city,
     state: addressInfo.state,
     postalCode: addressInfo.postalCode,
+    taxIdentifiers: extractTaxIdentifiers(employer.taxesSetupByJurisdiction),
+    incorporationDate: employer.incorporationDate || undefined,
+    incorporationState: employer.incorporationState || undefined,
+    contactEmail: employer.businessContact?.email || undefined,
+    contactPhone: employer.businessContact?.phoneNumber || undefined,
+    owners: (employer.controllingPersons || []).map((person) => {
+      const ownerAddress = formatWorkerAddress(person.address || undefined);
+      return {
+        firstName: person.firstName,
+        lastName: person.lastName,
+        title: person.title || "",
+        roles: person.roles || [],
+        ownershipPercentage: person.ownershipPercentage,
+        dateOfBirth: person.dateOfBirth || "",
+        ...ownerAddress,
+      };
+    }),
   };
 }
 
+/**
+ * Returns the ID of the employer that owns a payroll run, or null when the
+ * payroll run is unknown to Salsa
+ */
+export async function fetchPayrollRunEmployerId(
+  payrollRunId: string
+): Promise<string | null> {
+  const payrollRunQuery = `
+    query PayrollRun($payrollRunId: ID!) {
+      payrollRun(id: $payrollRunId) {
+        id
+        employer {
+          id
+        }
+      }
+    }
+  `;
+
+  const response = await executeGraphQLQuery<PayrollRunApiResponse>({
+    query: payrollRunQuery,
+    variables: { payrollRunId },
+  });
+
+  return response.payrollRun?.employer?.id || null;
+}
+
 /**
  * Extracts EIN from employer tax identifiers
  */
-function extractEin(
+export function extractEin(
   taxesSetupByJurisdiction: EmployerApiResponse["employer"]["taxesSetupByJurisdiction"]
 ): string {
   let ein = "";
@@ -311,10 +529,33 @@ function extractEin(
   return ein;
 }
 
+/**
+ * Lists every tax identifier with a value, with the jurisdiction it was set
+ * up in
+ */
+export function extractTaxIdentifiers(
+  taxesSetupByJurisdiction: EmployerApiResponse["employer"]["taxesSetupByJurisdiction"]
+): EmployerTaxIdentifier[] {
+  const taxIdentifiers: EmployerTaxIdentifier[] = [];
+  for (const jurisdiction of taxesSetupByJurisdiction || []) {
+    for (const taxId of jurisdiction.taxIdentifiers) {
+      if (taxId.value) {
+        taxIdentifiers.push({
+          jurisdiction: jurisdiction.jurisdiction?.name || "",
+          type: taxId.type.id,
+          name: taxId.type.name,
+          value: taxId.value,
+        });
+      }
+    }
+  }
+  return taxIdentifiers;
+}
+
 /**
  * Formats address from filing address data
  */
-function formatAddress(
+export function formatAddress(
   address?: EmployerApiResponse["employer"]["filingAddress"]["address"]
 ): {
   addressLine1: string;
@@ -344,63 +585,225 @@ function formatAddress(
 
 export async function fetchWorkerById(workerId: string): Promise<WorkerInfo> {
   const workerQuery = `
-    query Worker {
-      worker(id: "${workerId}") {
-        id
-        firstName
-        lastName
+    query Worker($workerId: ID!, $payStatementCount: Int!) {
+      worker(id: $workerId) {
+        ...WorkerFields
         employer {
           id
           businessName
         }
-        personalInformation {
-          dateOfBirth
-          homeAddress {
-            id
-            address {
-              addressLine1
-              addressLine2
-              locality
-              postalCode
-              administrativeArea
-              country
-            }
-          }
-          governmentIdentifiers {
-            id
-            value(unmasked: true)
-            type {
-              id
-              name
-            }
-          }
-        }
       }
     }
+    ${WORKER_FRAGMENT}
   `;
 
   // Execute GraphQL query
   const response = await executeGraphQLQuery<WorkerApiResponse>({
     query: workerQuery,
+    variables: { workerId, payStatementCount: getPayStatementCount() },
   });
 
   if (!response.worker) {
     throw new Error(`Worker not found with ID: ${workerId}`);
   }
 
-  const worker = response.worker as WorkerDetails;
-  
-  // Extract SSN if available
+  return mapWorker(response.worker, response.worker.employer);
+}
+
+/**
+ * Resolves many workers with one request per batch, each worker under its
+ * own alias. A worker that fails or is not found is reported in `errors`
+ * without failing the rest of its batch; a failed request fails its batch.
+ */
+export async function fetchWorkersByIds(
+  workerIds: string[],
+  batchSize: number = readEnvNumber("SALSA_WORKER_BATCH_SIZE", DEFAULT_WORKER_BATCH_SIZE)
+): Promise<WorkerBatchResult> {
+  const result: WorkerBatchResult = { workers: new Map(), errors: new Map() };
+  const uniqueIds = workerIds.filter((id, index) => workerIds.indexOf(id) === index);
+
+  for (let start = 0; start < uniqueIds.length; start += batchSize) {
+    const batch = uniqueIds.slice(start, start + batchSize);
+    const aliases = batch.map((_, index) => `w${index}`);
+    const workersQuery = `
+      query Workers(
+        ${aliases.map((alias) => `$${alias}: ID!`).join("\n        ")}
+        $payStatementCount: Int!
+      ) {
+        ${aliases
+          .map(
+            (alias) => `${alias}: worker(id: $${alias}) {
+          ...WorkerFields
+          employer {
+            id
+            businessName
+          }
+        }`
+          )
+          .join("\n        ")}
+      }
+      ${WORKER_FRAGMENT}
+    `;
+    const variables: Record<string, string | number> = {
+      payStatementCount: getPayStatementCount(),
+    };
+    aliases.forEach((alias, index) => (variables[alias] = batch[index]));
+
+    logDebug(`Fetching ${batch.length} workers in one Salsa GraphQL query...`);
+    let response: SalsaGraphQLResponse<Record<string, WorkerDetails | null>>;
+    try {
+      response = await sendGraphQLQuery({ query: workersQuery, variables });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      batch.forEach((workerId) => result.errors.set(workerId, message));
+      continue;
+    }
+
+    const aliasErrors = new Map<string, string>();
+    for (const error of response.errors || []) {
+      const alias = error.path?.[0];
+      if (!alias || !aliases.includes(alias)) {
+        // Not tied to one worker, so none of the batch can be trusted
+        batch.forEach((workerId) => result.errors.set(workerId, error.message));
+        aliasErrors.clear();
+        break;
+      }
+      aliasErrors.set(alias, error.message);
+    }
+
+    aliases.forEach((alias, index) => {
+      const workerId = batch[index];
+      const worker = response.data?.[alias];
+      if (result.errors.has(workerId)) {
+        return;
+      }
+      if (aliasErrors.has(alias)) {
+        result.errors.set(workerId, `Salsa GraphQL errors: ${aliasErrors.get(alias)}`);
+      } else if (!worker) {
+        result.errors.set(workerId, `Worker not found with ID: ${workerId}`);
+      } else {
+        result.workers.set(workerId, mapWorker(worker, worker.employer));
+      }
+    });
+  }
+
+  log(
+    `Resolved ${result.workers.size} of ${uniqueIds.length} workers from Salsa` +
+      (result.errors.size > 0 ? `, ${result.errors.size} failed` : "")
+  );
+  return result;
+}
+
+/**
+ * Pages through the workers of an employer, handing each page to onPage
+ * before the next one is requested so only one page is held at a time.
+ * Workers of the pages already handled are kept when a later page fails.
+ * Returns the number of workers listed.
+ */
+export async function fetchWorkersByEmployerId(
+  employerId: string,
+  options: FetchWorkersOptions,
+  onPage: (workers: WorkerInfo[]) => Promise<void> | void
+): Promise<number> {
+  const employerQuery = `
+    query EmployerWorkers(
+      $employerId: ID!
+      $first: Int!
+      $after: String
+      $filter: WorkerFilterInput
+      $payStatementCount: Int!
+    ) {
+      employer(id: $employerId) {
+        id
+        businessName
+        workers(first: $first, after: $after, filter: $filter) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          edges {
+            node {
+              ...WorkerFields
+            }
+          }
+        }
+      }
+    }
+    ${WORKER_FRAGMENT}
+  `;
+  const pageSize =
+    options.pageSize || readEnvNumber("SALSA_WORKER_PAGE_SIZE", DEFAULT_WORKER_PAGE_SIZE);
+  const filter = getWorkerFilterInput(options);
+
+  let after: string | null = null;
+  let pageCount = 0;
+  let workerCount = 0;
+
+  do {
+    const response: EmployerWorkersApiResponse =
+      await executeGraphQLQuery<EmployerWorkersApiResponse>({
+        query: employerQuery,
+        variables: {
+          employerId,
+          first: pageSize,
+          after,
+          filter,
+          payStatementCount: getPayStatementCount(),
+        },
+      });
+
+    const employer = response.employer;
+    if (!employer) {
+      throw new Error(`Employer not found with ID: ${employerId}`);
+    }
+
+    const connection = employer.workers;
+    const workers = connection.edges.map((edge) => mapWorker(edge.node, employer));
+    pageCount++;
+    workerCount += workers.length;
+    logDebug(
+      `Retrieved page ${pageCount} with ${workers.length} workers of ${employerId}`,
+      connection.pageInfo.hasNextPage ? `(next cursor: ${connection.pageInfo.endCursor})` : "(last page)"
+    );
+    await onPage(workers);
+
+    after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+  } while (after);
+
+  log(`Walked ${pageCount} page(s) and retrieved ${workerCount} workers of ${employerId}`);
+  return workerCount;
+}
+
+/**
+ * Returns the Salsa filter input for the options, null when unfiltered
+ */
+function getWorkerFilterInput(filters: WorkerFilters): Record<string, string> | null {
+  const filter: Record<string, string> = {};
+  if (filters.status) {
+    filter.employmentStatus = filters.status.toUpperCase();
+  }
+  if (filters.hiredAfter) {
+    filter.hiredAfter = filters.hiredAfter;
+  }
+  return Object.keys(filter).length > 0 ? filter : null;
+}
+
+/**
+ * Maps a worker selected with WorkerFields to our domain model
+ */
+function mapWorker(
+  worker: EmployerWorker,
+  employer: { id: string; businessName: string }
+): WorkerInfo {
   const ssn = extractSsn(worker.personalInformation.governmentIdentifiers);
   const addressInfo = formatWorkerAddress(worker.personalInformation.homeAddress?.address);
 
-  // Map API response to our domain model
   return {
     workerId: worker.id,
     firstName: worker.firstName,
     lastName: worker.lastName,
-    employerId: worker.employer.id,
-    employerName: worker.employer.businessName,
+    employerId: employer.id,
+    employerName: employer.businessName,
     dateOfBirth: worker.personalInformation.dateOfBirth,
     addressLine1: addressInfo.addressLine1,
     addressLine2: addressInfo.addressLine2,
@@ -409,82 +812,49 @@ export async function fetchWorkerById(workerId: string): Promise<WorkerInfo> {
     postalCode: addressInfo.postalCode,
     country: addressInfo.country,
     ssn: ssn,
+    employmentStatus: worker.employment?.status,
+    hireDate: worker.employment?.hireDate || undefined,
+    terminationDate: worker.employment?.terminationDate || undefined,
+    jobTitle: worker.employment?.jobTitle || undefined,
+    payRate: worker.employment?.payRate?.amount,
+    payRateCurrency: worker.employment?.payRate?.currency,
+    payRatePeriod: worker.employment?.payRate?.period,
+    recentPayments: summarizePayStatements(worker.payStatements || []),
   };
 }
 
-export async function fetchWorkersByEmployerId(employerId: string): Promise<WorkerInfo[]> {
-  const employerQuery = `
-    query Employer {
-      employer(id: "${employerId}") {
-        id
-        workers {
-          id
-          firstName
-          lastName
-          personalInformation {
-            dateOfBirth
-            homeAddress {
-              id
-              address {
-                addressLine1
-                addressLine2
-                locality
-                postalCode
-                administrativeArea
-                country
-              }
-            }
-            governmentIdentifiers {
-              id
-              value(unmasked: true)
-              type {
-                id
-                name
-              }
-            }
-          }
-        }
-      }
-    }
-  `;
-
-  // Execute GraphQL query
-  const response = await executeGraphQLQuery<WorkerApiResponse>({
-    query: employerQuery,
-  });
-
-  if (!response.employer || !response.employer.workers) {
-    throw new Error(`Employer not found with ID: ${employerId} or has no workers`);
-  }
+function getPayStatementCount(): number {
+  return readEnvNumber("SALSA_PAY_STATEMENT_COUNT", DEFAULT_PAY_STATEMENT_COUNT);
+}
 
-  // Map API response to our domain model
-  return response.employer.workers.map(worker => {
-    const workerData = worker as EmployerWorker;
-    const ssn = extractSsn(workerData.personalInformation.governmentIdentifiers);
-    const addressInfo = formatWorkerAddress(workerData.personalInformation.homeAddress?.address);
+/**
+ * Totals the gross and net pay of a worker's recent pay statements. Amounts
+ * are summed in cents so decimal strings add up exactly.
+ */
+export function summarizePayStatements(
+  payStatements: NonNullable<WorkerDetails["payStatements"]>
+): WorkerPaySummary {
+  const toCents = (amount: string) => Math.round(Number(amount || 0) * 100);
+  const formatCents = (cents: number) => (cents / 100).toFixed(2);
+  const payDates = payStatements.map((statement) => statement.payDate).sort();
 
-    return {
-      workerId: workerData.id,
-      firstName: workerData.firstName,
-      lastName: workerData.lastName,
-      employerId: response.employer?.id || "",
-      employerName: workerData.id,
-      dateOfBirth: workerData.personalInformation.dateOfBirth,
-      addressLine1: addressInfo.addressLine1,
-      addressLine2: addressInfo.addressLine2,
-      city: addressInfo.city,
-      state: addressInfo.state,
-      postalCode: addressInfo.postalCode,
-      country: addressInfo.country,
-      ssn: ssn,
-    };
-  });
+  return {
+    count: payStatements.length,
+    grossPay: formatCents(
+      payStatements.reduce((total, statement) => total + toCents(statement.grossPay), 0)
+    ),
+    netPay: formatCents(
+      payStatements.reduce((total, statement) => total + toCents(statement.netPay), 0)
+    ),
+    firstPayDate: payDates[0] || "",
+    lastPayDate: payDates[payDates.length - 1] || "",
+  };
 }
 
 /**
  * Extracts SSN from worker government identifiers
  */
-function extractSsn(
+export function extractSsn(
   governmentIdentifiers: WorkerDetails["personalInformation"]["governmentIdentifiers"]
 ): string | undefined {
   if (!governmentIdentifiers || governmentIdentifiers.length === 0) {
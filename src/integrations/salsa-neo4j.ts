@@ -1,5 +1,7 @@
 import { Driver, Session, driver, auth } from "neo4j-driver";
 import { log, logDebug, logError, logTrace } from "../utils/logger";
+import { getReplaySource, withNeo4jRecording } from "./recorder";
+import { recordSourceRequest } from "./sources";
 
 interface Neo4jConfig {
   uri: string;
@@ -17,6 +19,8 @@ export interface EmployerBankAccount {
   partyName: string;
   createdDate: string;
   isDeleted: boolean;
+  // Set on deleted accounts when the graph recorded it
+  deletedDate?: string | null;
 }
 
 export interface WorkerBankAccount {
@@ -30,16 +34,69 @@ export interface WorkerBankAccount {
   isDeleted: boolean;
 }
 
+export interface BankAccountHolder {
+  holderType: "worker" | "employer";
+  employerId: string;
+  // Null for employer accounts
+  workerId: string | null;
+  // Employer bank account ID, null for worker accounts
+  bankAccountId: string | null;
+  bankName: string;
+  partyName: string;
+  createdDate: string;
+  isDeleted: boolean;
+  // Signer of the employer account's latest unrevoked authorization, if any
+  authorizerFirstName: string | null;
+  authorizerLastName: string | null;
+  authorizerEmail: string | null;
+}
+
+export interface SharedBankAccount {
+  routingNumber: string;
+  accountNumber: string;
+  holders: BankAccountHolder[];
+}
+
+/**
+ * One PaymentAuthorizationSignature of an employer bank account, with the
+ * PaymentAuthorization it signs
+ */
 export interface AuthorizerInfo {
+  // Employer bank account ID
   entityId: string;
+  signatureId: string;
+  authorizationId: string;
+  authorizationType: string | null;
+  authorizationVersion: string | null;
+  signedDate: string | null;
+  isRevoked: boolean;
+  revokedDate: string | null;
   authorizerFirstName: string;
   authorizerLastName: string;
   authorizerEmail: string;
   clientIpAddress: string;
 }
 
+/**
+ * An authorization signature made from a client IP, with the employer of
+ * the signed bank account
+ */
+export interface ClientIpSignature {
+  clientIpAddress: string;
+  employerId: string;
+  bankAccountId: string;
+  signedDate: string | null;
+  authorizerFirstName: string;
+  authorizerLastName: string;
+  authorizerEmail: string;
+}
+
 let neo4jDriver: Driver | null = null;
 
+function getNeo4jUri(): string {
+  return process.env.NEO4J_URI || "bolt://localhost:7687";
+}
+
 /**
  * Initialize Neo4j driver with configuration from environment variables
  */
@@ -49,7 +106,7 @@ function initializeDriver(): Driver {
   }
 
   const config: Neo4jConfig = {
-    uri: process.env.NEO4J_URI || "bolt://localhost:7687",
+    uri: getNeo4jUri(),
     username: process.env.NEO4J_USERNAME || "neo4j",
     password: process.env.NEO4J_PASSWORD || "",
     database: process.env.NEO4J_DATABASE,
@@ -81,11 +138,20 @@ export async function closeNeo4jConnection(): Promise<void> {
 }
 
 /**
- * Execute a Cypher query against Neo4j database
+ * Execute a Cypher query against Neo4j database, through the recorder when
+ * --record or --replay is used
  */
 async function executeNeo4jQuery<T>(
   cypher: string,
   params: Record<string, any> = {}
+): Promise<T[]> {
+  recordSourceRequest("Neo4j", getReplaySource() || getNeo4jUri());
+  return withNeo4jRecording(cypher, params, () => runNeo4jQuery<T>(cypher, params));
+}
+
+async function runNeo4jQuery<T>(
+  cypher: string,
+  params: Record<string, any>
 ): Promise<T[]> {
   const driver = initializeDriver();
   const database = process.env.NEO4J_DATABASE;
@@ -146,7 +212,8 @@ async function fetchDeletedBankAccounts(employerId: string): Promise<EmployerBan
   const cypher = `
     MATCH(wc:EmployerCounterparty {employerId: $employerId})-[]-(wba:DeletedEmployerBankAccount)
     RETURN wba.entityId as id, wc.employerId as employerId, wba.bankName as bankName, wba.accountNumber as accountNumber, 
-           wba.routingNumber as routingNumber, wba.partyName as partyName, wba.createdDate as createdDate
+           wba.routingNumber as routingNumber, wba.partyName as partyName, wba.createdDate as createdDate,
+           wba.deletedDate as deletedDate
     ORDER BY wc.employerId, wba.routingNumber, wba.createdDate
   `;
 
@@ -179,45 +246,38 @@ export async function fetchEmployerBankAccounts(employerId: string): Promise<Emp
   }
 }
 
+const AUTHORIZER_FIELDS = `
+  eba.entityId as entityId, pas.entityId as signatureId, pa.entityId as authorizationId,
+  pa.authorizationType as authorizationType, pa.authorizationVersion as authorizationVersion,
+  pa.signedDate as signedDate, coalesce(pa.isRevoked, false) as isRevoked,
+  pa.revokedDate as revokedDate, pas.authorizerFirstName as authorizerFirstName,
+  pas.authorizerLastName as authorizerLastName, pas.authorizerEmail as authorizerEmail,
+  pas.clientIpAddress as clientIpAddress
+`;
+
 /**
- * Fetch authorizer information for a bank account
+ * Picks the signature of the latest unrevoked authorization, or of the
+ * latest authorization when they are all revoked
  */
-export async function fetchAuthorizerInfo(employerBankAccountId: string): Promise<AuthorizerInfo | null> {
-  const cypher = `
-    MATCH(pas:PaymentAuthorizationSignature)-[]-(pa:PaymentAuthorization)-[]-(eba:DeletedEmployerBankAccount {entityId: $employerBankAccountId})
-    RETURN eba.entityId as entityId, pas.authorizerFirstName as authorizerFirstName, 
-           pas.authorizerLastName as authorizerLastName, pas.authorizerEmail as authorizerEmail, 
-           pas.clientIpAddress as clientIpAddress
-    UNION
-    MATCH(pas:PaymentAuthorizationSignature)-[]-(pa:PaymentAuthorization)-[]-(eba:EmployerBankAccount {entityId: $employerBankAccountId})
-    RETURN eba.entityId as entityId, pas.authorizerFirstName as authorizerFirstName, 
-           pas.authorizerLastName as authorizerLastName, pas.authorizerEmail as authorizerEmail, 
-           pas.clientIpAddress as clientIpAddress
-  `;
+export function getCurrentAuthorizer(signatures: AuthorizerInfo[]): AuthorizerInfo | undefined {
+  const unrevoked = signatures.filter((signature) => !signature.isRevoked);
+  const candidates = unrevoked.length > 0 ? unrevoked : signatures;
+  return candidates[candidates.length - 1];
+}
 
-  log(`Fetching authorizer info for bank account ID ${employerBankAccountId}`);
-  
-  try {
-    const results = await executeNeo4jQuery<AuthorizerInfo>(cypher, { employerBankAccountId });
-    
-    if (results.length === 0) {
-      logDebug(`No authorizer info found for bank account ID ${employerBankAccountId}`);
-      return null;
-    }
-    
-    // Return the first authorizer info found
-    return results[0];
-  } catch (error) {
-    logError(`Error fetching authorizer info for bank account ID ${employerBankAccountId}:`, error);
-    return null; // Return null instead of throwing to avoid breaking the main process
-  }
+/**
+ * Fetch every authorization signature of a bank account, oldest first
+ */
+export async function fetchAuthorizerInfo(employerBankAccountId: string): Promise<AuthorizerInfo[]> {
+  const authorizers = await fetchAuthorizerInfoBatch([employerBankAccountId]);
+  return authorizers.get(employerBankAccountId) || [];
 }
 
 /**
- * Fetch authorizer information for multiple bank accounts at once
- * Returns a map of bank account ID to authorizer info
+ * Fetch the authorization signatures of multiple bank accounts at once
+ * Returns a map of bank account ID to its signatures, oldest first
  */
-export async function fetchAuthorizerInfoBatch(employerBankAccountIds: string[]): Promise<Map<string, AuthorizerInfo>> {
+export async function fetchAuthorizerInfoBatch(employerBankAccountIds: string[]): Promise<Map<string, AuthorizerInfo[]>> {
   if (employerBankAccountIds.length === 0) {
     return new Map();
   }
@@ -228,30 +288,29 @@ export async function fetchAuthorizerInfoBatch(employerBankAccountIds: string[])
   const cypher = `
     MATCH(pas:PaymentAuthorizationSignature)-[]-(pa:PaymentAuthorization)-[]-(eba:DeletedEmployerBankAccount)
     WHERE eba.entityId IN $employerBankAccountIds
-    RETURN eba.entityId as entityId, pas.authorizerFirstName as authorizerFirstName, 
-           pas.authorizerLastName as authorizerLastName, pas.authorizerEmail as authorizerEmail, 
-           pas.clientIpAddress as clientIpAddress
+    RETURN ${AUTHORIZER_FIELDS}
     UNION
     MATCH(pas:PaymentAuthorizationSignature)-[]-(pa:PaymentAuthorization)-[]-(eba:EmployerBankAccount)
     WHERE eba.entityId IN $employerBankAccountIds
-    RETURN eba.entityId as entityId, pas.authorizerFirstName as authorizerFirstName, 
-           pas.authorizerLastName as authorizerLastName, pas.authorizerEmail as authorizerEmail, 
-           pas.clientIpAddress as clientIpAddress
+    RETURN ${AUTHORIZER_FIELDS}
   `;
 
   log(`Fetching authorizer info for ${employerBankAccountIds.length} bank account IDs in batch`);
   
   try {
     const results = await executeNeo4jQuery<AuthorizerInfo>(cypher, params);
-    const authorizerMap = new Map<string, AuthorizerInfo>();
+    const authorizerMap = new Map<string, AuthorizerInfo[]>();
     
+    results.sort((a, b) => String(a.signedDate || "").localeCompare(String(b.signedDate || "")));
     for (const authInfo of results) {
       if (authInfo.entityId) {
-        authorizerMap.set(authInfo.entityId, authInfo);
+        const signatures = authorizerMap.get(authInfo.entityId) || [];
+        signatures.push(authInfo);
+        authorizerMap.set(authInfo.entityId, signatures);
       }
     }
     
-    logDebug(`Found authorizer info for ${authorizerMap.size} out of ${employerBankAccountIds.length} bank accounts`);
+    logDebug(`Found ${results.length} authorization signatures for ${authorizerMap.size} out of ${employerBankAccountIds.length} bank accounts`);
     return authorizerMap;
   } catch (error) {
     logError(`Error fetching authorizer info in batch:`, error);
@@ -324,4 +383,82 @@ export async function fetchWorkerBankAccounts(employerIds: string[]): Promise<Wo
     logError(`Error fetching worker bank accounts for employers:`, error);
     throw error;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Finds the bank accounts (routing and account number) of the employers or
+ * their workers that are held by more than one counterparty anywhere in the
+ * graph, active or deleted, with every holder of each account
+ */
+export async function fetchSharedBankAccounts(employerIds: string[]): Promise<SharedBankAccount[]> {
+  const cypher = `
+    MATCH(c)-[]-(seed)
+    WHERE (c:WorkerCounterparty OR c:EmployerCounterparty) AND c.employerId IN $employerIds
+      AND (seed:WorkerBankAccount OR seed:DeletedWorkerBankAccount
+        OR seed:EmployerBankAccount OR seed:DeletedEmployerBankAccount)
+    WITH DISTINCT seed.routingNumber as routingNumber, seed.accountNumber as accountNumber
+    MATCH(holder)-[]-(account)
+    WHERE (holder:WorkerCounterparty OR holder:EmployerCounterparty)
+      AND (account:WorkerBankAccount OR account:DeletedWorkerBankAccount
+        OR account:EmployerBankAccount OR account:DeletedEmployerBankAccount)
+      AND account.routingNumber = routingNumber AND account.accountNumber = accountNumber
+    OPTIONAL MATCH(pas:PaymentAuthorizationSignature)-[]-(pa:PaymentAuthorization)-[]-(account)
+    WITH routingNumber, accountNumber, holder, account, pas
+      ORDER BY coalesce(pa.isRevoked, false), pa.signedDate DESC
+    WITH routingNumber, accountNumber, holder, account, head(collect(pas)) as pas
+    WITH routingNumber, accountNumber, collect(DISTINCT {
+      holderType: CASE WHEN holder:WorkerCounterparty THEN "worker" ELSE "employer" END,
+      employerId: holder.employerId, workerId: holder.workerId, bankAccountId: account.entityId,
+      bankName: account.bankName, partyName: account.partyName, createdDate: account.createdDate,
+      isDeleted: account:DeletedWorkerBankAccount OR account:DeletedEmployerBankAccount,
+      authorizerFirstName: pas.authorizerFirstName, authorizerLastName: pas.authorizerLastName,
+      authorizerEmail: pas.authorizerEmail
+    }) as holders
+    WHERE size(holders) > 1
+    RETURN routingNumber, accountNumber, holders
+    ORDER BY routingNumber, accountNumber
+  `;
+
+  log(`Looking for bank accounts shared with the accounts of ${employerIds.length} employer(s)`);
+
+  try {
+    const results = await executeNeo4jQuery<SharedBankAccount>(cypher, { employerIds });
+    log(`Found ${results.length} bank accounts with several holders`);
+    return results;
+  } catch (error) {
+    logError(`Error looking for shared bank accounts:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Finds every authorization signature, of any employer, made from the given
+ * client IPs
+ */
+export async function fetchSignaturesByClientIp(clientIpAddresses: string[]): Promise<ClientIpSignature[]> {
+  if (clientIpAddresses.length === 0) {
+    return [];
+  }
+
+  const cypher = `
+    MATCH(pas:PaymentAuthorizationSignature)-[]-(pa:PaymentAuthorization)-[]-(eba)-[]-(ec:EmployerCounterparty)
+    WHERE pas.clientIpAddress IN $clientIpAddresses
+      AND (eba:EmployerBankAccount OR eba:DeletedEmployerBankAccount)
+    RETURN DISTINCT pas.clientIpAddress as clientIpAddress, ec.employerId as employerId,
+           eba.entityId as bankAccountId, pa.signedDate as signedDate,
+           pas.authorizerFirstName as authorizerFirstName, pas.authorizerLastName as authorizerLastName,
+           pas.authorizerEmail as authorizerEmail
+    ORDER BY clientIpAddress, employerId, signedDate
+  `;
+
+  log(`Looking for authorization signatures from ${clientIpAddresses.length} client IPs`);
+
+  try {
+    const results = await executeNeo4jQuery<ClientIpSignature>(cypher, { clientIpAddresses });
+    log(`Found ${results.length} authorization signatures from these IPs`);
+    return results;
+  } catch (error) {
+    logError(`Error looking for signatures by client IP:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+export interface SourceSystem {
+  name: string;
+  // Base URL or URI the data was read from
+  url: string;
+  // Requests sent during the run, retries included
+  requests: number;
+}
+
+const sources = new Map<string, SourceSystem>();
+
+/**
+ * Records a request to a source system so exports can say where their data
+ * came from
+ */
+export function recordSourceRequest(name: string, url: string): void {
+  const key = `${name} ${url}`;
+  const source = sources.get(key);
+  if (source) {
+    source.requests++;
+  } else {
+    sources.set(key, { name, url, requests: 1 });
+  }
+}
+
+/**
+ * Returns every source system queried during the current run
+ */
+export function getQueriedSources(): SourceSystem[] {
+  const queried: SourceSystem[] = [];
+  sources.forEach((source) => queried.push({ ...source }));
+  return queried;
+}
@@ -0,0 +1,191 @@
+import { describeError, log, logError } from "../utils/logger";
+import { writeDataset } from "../utils/output";
+import { classifyIp, IpAddressInfo } from "../utils/ip-address";
+import {
+  AuthorizerInfo,
+  closeNeo4jConnection,
+  fetchAuthorizerInfoBatch,
+  fetchEmployerBankAccounts,
+  fetchSignaturesByClientIp,
+} from "../integrations/salsa-neo4j";
+import {
+  IpAsn,
+  IpGeoLocation,
+  loadAsnList,
+  lookupIpAsns,
+  lookupIpGeoLocations,
+} from "../integrations/ip-data";
+import { fetchBatchWithStore, fetchListWithStore } from "./entity-store";
+import { EntityFailure, ServiceOptions, ServiceResult } from "./types";
+
+export type IpFlag = "NOT_PUBLIC" | "DATACENTER" | "VPN" | "SHARED_ACROSS_EMPLOYERS";
+
+export interface ClientIpAnalysis {
+  ip: IpAddressInfo;
+  location?: IpGeoLocation;
+  asn?: IpAsn;
+  isDatacenter: boolean;
+  isVpn: boolean;
+  // Every employer in the graph with an authorization signed from this IP
+  employerIds: string[];
+}
+
+/**
+ * Flags an authorization IP that is not a public address, belongs to a
+ * hosting or VPN network, or signed for more than one employer
+ */
+export function getIpFlags(analysis: ClientIpAnalysis): IpFlag[] {
+  const flags: IpFlag[] = [];
+  if (analysis.ip.classification !== "public") {
+    flags.push("NOT_PUBLIC");
+  }
+  if (analysis.isDatacenter) {
+    flags.push("DATACENTER");
+  }
+  if (analysis.isVpn) {
+    flags.push("VPN");
+  }
+  if (new Set(analysis.employerIds).size > 1) {
+    flags.push("SHARED_ACROSS_EMPLOYERS");
+  }
+  return flags;
+}
+
+function formatNetworkType(analysis: ClientIpAnalysis): string {
+  return [analysis.isDatacenter ? "datacenter" : "", analysis.isVpn ? "vpn" : ""]
+    .filter((type) => type)
+    .join(", ");
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => value && values.indexOf(value) === index);
+}
+
+export async function getAuthorizerIpAnalysis(
+  employerIds: string[],
+  options: ServiceOptions = {}
+): Promise<ServiceResult> {
+  log("Starting client IP analysis of payment authorizations...");
+  const signaturesByIp = new Map<string, AuthorizerInfo[]>();
+  const employersByIp = new Map<string, string[]>();
+  const failures: EntityFailure[] = [];
+  const allRecords = [];
+
+  try {
+    for (const employerId of employerIds) {
+      try {
+        log(`Fetching the payment authorizations of ${employerId}...`);
+        const accounts = await fetchListWithStore(
+          "employerBankAccount",
+          employerId,
+          () => fetchEmployerBankAccounts(employerId),
+          (account) => account.id
+        );
+        const accountIds = accounts.filter((account) => account.id).map((account) => account.id);
+        const authorizations = await fetchBatchWithStore(
+          "paymentAuthorization",
+          accountIds,
+          fetchAuthorizerInfoBatch
+        );
+
+        authorizations.forEach((signatures) => {
+          for (const signature of signatures) {
+            const ip = (signature.clientIpAddress || "").trim();
+            if (!ip) {
+              continue;
+            }
+            signaturesByIp.set(ip, [...(signaturesByIp.get(ip) || []), signature]);
+            employersByIp.set(ip, unique([...(employersByIp.get(ip) || []), employerId]));
+          }
+        });
+      } catch (error) {
+        logError(`Error fetching the payment authorizations of ${employerId}:`, error);
+        failures.push({ entityId: employerId, error: describeError(error) });
+      }
+    }
+
+    const ips = Array.from(signaturesByIp.keys());
+    log(`Analyzing ${ips.length} client IPs...`);
+    const locations = await lookupIpGeoLocations(ips);
+    const asns = await lookupIpAsns(ips);
+    const datacenterAsns = loadAsnList("datacenterAsns");
+    const vpnAsns = loadAsnList("vpnAsns");
+    const graphSignatures = await fetchSignaturesByClientIp(ips);
+
+    const analyses = ips.map((address) => {
+      const asn = asns.get(address);
+      const analysis: ClientIpAnalysis = {
+        ip: classifyIp(address),
+        location: locations.get(address),
+        asn,
+        isDatacenter: Boolean(asn && datacenterAsns.has(asn.asn)),
+        isVpn: Boolean(asn && vpnAsns.has(asn.asn)),
+        employerIds: unique([
+          ...(employersByIp.get(address) || []),
+          ...graphSignatures
+            .filter((signature) => signature.clientIpAddress === address)
+            .map((signature) => signature.employerId),
+        ]),
+      };
+      return analysis;
+    });
+    analyses.sort((a, b) => a.ip.key.localeCompare(b.ip.key));
+
+    for (const analysis of analyses) {
+      const signatures = signaturesByIp.get(analysis.ip.address) || [];
+      const requestedEmployers = employersByIp.get(analysis.ip.address) || [];
+      allRecords.push({
+        client_ip: analysis.ip.address,
+        ip_version: analysis.ip.version || "",
+        classification: analysis.ip.classification,
+        country: analysis.location?.country || "",
+        region: analysis.location?.region || "",
+        asn: analysis.asn ? `AS${analysis.asn.asn}` : "",
+        as_name: analysis.asn?.name || "",
+        network_type: formatNetworkType(analysis),
+        signature_count: signatures.length,
+        authorizers: unique(signatures.map((signature) => signature.authorizerEmail)).join(", "),
+        employer_ids: requestedEmployers.join(", "),
+        other_employer_ids: analysis.employerIds
+          .filter((employerId) => !requestedEmployers.includes(employerId))
+          .join(", "),
+        flags: getIpFlags(analysis).join(", "),
+      });
+    }
+  } finally {
+    await closeNeo4jConnection();
+  }
+
+  log(`Writing ${allRecords.length} records...`);
+  const outputPath = await writeDataset(
+    {
+      name: "authorizer-ip-analysis",
+      sheetName: "Authorizer IPs",
+      columns: [
+        { id: "client_ip", title: "Client IP" },
+        { id: "ip_version", title: "IP version" },
+        { id: "classification", title: "Classification" },
+        { id: "country", title: "Country" },
+        { id: "region", title: "Region" },
+        { id: "asn", title: "ASN" },
+        { id: "as_name", title: "AS name" },
+        { id: "network_type", title: "Network type" },
+        { id: "signature_count", title: "Signatures" },
+        { id: "authorizers", title: "Authorizer emails" },
+        { id: "employer_ids", title: "Employers" },
+        { id: "other_employer_ids", title: "Other employers signing from this IP" },
+        { id: "flags", title: "Flags" },
+      ],
+      records: allRecords,
+    },
+    options
+  );
+  log(`Data has been written to ${outputPath}`);
+
+  return {
+    dataset: "authorizer-ip-analysis",
+    outputPath,
+    recordCount: allRecords.length,
+    failures,
+  };
+}
@@ -0,0 +1,385 @@
+import { describeError, log, logError } from "../utils/logger";
+import { writeDataset } from "../utils/output";
+import {
+  describeRedaction,
+  NO_REDACTION,
+  redactIdentifier,
+} from "../utils/redaction";
+import {
+  AuthorizerInfo,
+  closeNeo4jConnection,
+  EmployerBankAccount,
+  fetchAuthorizerInfoBatch,
+  fetchEmployerBankAccounts,
+  getCurrentAuthorizer,
+} from "../integrations/salsa-neo4j";
+import { ModernTreasuryPaymentOrder } from "../integrations/modern-treasury";
+import {
+  fetchBatchWithStore,
+  fetchEmployerDebits,
+  fetchListWithStore,
+} from "./entity-store";
+import { EntityFailure, ServiceOptions, ServiceResult } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A deletion this close to another account's creation counts as a swap
+const REPLACEMENT_WINDOW_DAYS = 3;
+// Debit statuses that mean the money never arrived
+const FAILED_DEBIT_STATUSES = ["failed", "returned"];
+
+export type BankAccountEventType = "ADDED" | "REPLACED" | "DELETED";
+
+export interface BankAccountEvent {
+  employerId: string;
+  // Empty when a deleted account has no deletion date and no successor
+  date: string;
+  type: BankAccountEventType;
+  account: EmployerBankAccount;
+  // The account replaced by, or replacing, this one
+  relatedAccountId: string;
+  // True when the deletion date is taken from the successor's creation
+  dateInferred: boolean;
+}
+
+export type ChurnPattern =
+  | "RAPID_CHANGES"
+  | "CHANGE_BEFORE_FAILED_DEBIT"
+  | "CHANGE_BEFORE_LARGE_DEBIT";
+
+export interface ChurnAlert {
+  employerId: string;
+  pattern: ChurnPattern;
+  windowStart: string;
+  windowEnd: string;
+  changeCount: number;
+  accountIds: string[];
+  debit?: ModernTreasuryPaymentOrder;
+}
+
+export interface ChurnOptions {
+  // RAPID_CHANGES: at least minChanges events within windowDays
+  windowDays: number;
+  minChanges: number;
+  // Changes this many days or less before a debit are flagged
+  debitWindowDays: number;
+  // Debits of at least this many cents count as large
+  largeDebitAmount: number;
+}
+
+export const DEFAULT_CHURN_OPTIONS: ChurnOptions = {
+  windowDays: 30,
+  minChanges: 3,
+  debitWindowDays: 7,
+  largeDebitAmount: 1000000,
+};
+
+export interface BankAccountTimelineOptions extends ServiceOptions {
+  churn?: Partial<ChurnOptions>;
+}
+
+export interface BankAccountTimelineResult extends ServiceResult {
+  // Churn alerts raised from the same timelines
+  churn: ServiceResult;
+}
+
+function toTime(date: string): number {
+  return date ? Date.parse(date) : NaN;
+}
+
+/**
+ * Orders dates oldest first, missing or unparseable dates last
+ */
+function compareDates(a: string, b: string): number {
+  const timeA = toTime(a);
+  const timeB = toTime(b);
+  if (Number.isNaN(timeA) || Number.isNaN(timeB)) {
+    return Number(Number.isNaN(timeA)) - Number(Number.isNaN(timeB));
+  }
+  return timeA - timeB;
+}
+
+function daysBetween(from: string, to: string): number {
+  return (toTime(to) - toTime(from)) / DAY_MS;
+}
+
+/**
+ * Orders the accounts of an employer into ADDED, REPLACED and DELETED
+ * events. An account created within a few days of another account's
+ * deletion replaced it; a deleted account without a deletion date is taken
+ * as deleted when the next account was created.
+ */
+export function buildBankAccountTimeline(
+  employerId: string,
+  accounts: EmployerBankAccount[]
+): BankAccountEvent[] {
+  const sorted = accounts
+    .map((account) => ({ ...account, createdDate: String(account.createdDate || "") }))
+    .sort((a, b) => compareDates(a.createdDate, b.createdDate));
+
+  const deletedDates = new Map<string, { date: string; inferred: boolean }>();
+  sorted.forEach((account, index) => {
+    if (!account.isDeleted) {
+      return;
+    }
+    const successor = sorted[index + 1];
+    if (account.deletedDate) {
+      deletedDates.set(account.id, { date: String(account.deletedDate), inferred: false });
+    } else {
+      deletedDates.set(account.id, {
+        date: successor ? successor.createdDate : "",
+        inferred: Boolean(successor),
+      });
+    }
+  });
+
+  const events: BankAccountEvent[] = [];
+  const replacedBy = new Map<string, string>();
+
+  for (const account of sorted) {
+    const replaced = sorted.find((candidate) => {
+      const deleted = deletedDates.get(candidate.id);
+      return (
+        candidate !== account &&
+        deleted?.date &&
+        !replacedBy.has(candidate.id) &&
+        toTime(candidate.createdDate) <= toTime(account.createdDate) &&
+        Math.abs(daysBetween(deleted.date, account.createdDate)) <= REPLACEMENT_WINDOW_DAYS
+      );
+    });
+    if (replaced) {
+      replacedBy.set(replaced.id, account.id);
+    }
+    events.push({
+      employerId,
+      date: account.createdDate,
+      type: replaced ? "REPLACED" : "ADDED",
+      account,
+      relatedAccountId: replaced ? replaced.id : "",
+      dateInferred: false,
+    });
+  }
+
+  deletedDates.forEach((deleted, accountId) => {
+    const account = sorted.find((candidate) => candidate.id === accountId);
+    if (account) {
+      events.push({
+        employerId,
+        date: deleted.date,
+        type: "DELETED",
+        account,
+        relatedAccountId: replacedBy.get(accountId) || "",
+        dateInferred: deleted.inferred,
+      });
+    }
+  });
+
+  // Undated events last; a swap lists the new account before the deletion
+  const order: Record<BankAccountEventType, number> = { ADDED: 0, REPLACED: 0, DELETED: 1 };
+  return events.sort(
+    (a, b) => compareDates(a.date, b.date) || order[a.type] - order[b.type]
+  );
+}
+
+/**
+ * Flags bursts of account changes and account changes shortly before a
+ * failed or large debit
+ */
+export function detectChurn(
+  employerId: string,
+  events: BankAccountEvent[],
+  debits: ModernTreasuryPaymentOrder[],
+  options: ChurnOptions = DEFAULT_CHURN_OPTIONS
+): ChurnAlert[] {
+  const alerts: ChurnAlert[] = [];
+  // A swap is one change, counted on its new account
+  const changes = events.filter(
+    (event) => event.date && !(event.type === "DELETED" && event.relatedAccountId)
+  );
+
+  for (let start = 0; start < changes.length; ) {
+    const windowEnd = toTime(changes[start].date) + options.windowDays * DAY_MS;
+    let end = start;
+    while (end + 1 < changes.length && toTime(changes[end + 1].date) <= windowEnd) {
+      end++;
+    }
+    const burst = changes.slice(start, end + 1);
+    if (burst.length >= options.minChanges) {
+      alerts.push({
+        employerId,
+        pattern: "RAPID_CHANGES",
+        windowStart: burst[0].date,
+        windowEnd: burst[burst.length - 1].date,
+        changeCount: burst.length,
+        accountIds: burst.map((event) => event.account.id),
+      });
+      start = end + 1;
+    } else {
+      start++;
+    }
+  }
+
+  for (const debit of debits) {
+    const failed = FAILED_DEBIT_STATUSES.includes(debit.status);
+    if (!failed && debit.amount < options.largeDebitAmount) {
+      continue;
+    }
+    const before = changes.filter((event) => {
+      const days = daysBetween(event.date, debit.effective_date);
+      return event.type !== "DELETED" && days >= 0 && days <= options.debitWindowDays;
+    });
+    if (before.length > 0) {
+      alerts.push({
+        employerId,
+        pattern: failed ? "CHANGE_BEFORE_FAILED_DEBIT" : "CHANGE_BEFORE_LARGE_DEBIT",
+        windowStart: before[0].date,
+        windowEnd: debit.effective_date,
+        changeCount: before.length,
+        accountIds: before.map((event) => event.account.id),
+        debit,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+export async function getBankAccountTimeline(
+  employerIds: string[],
+  options: BankAccountTimelineOptions = {}
+): Promise<BankAccountTimelineResult> {
+  log("Starting bank account timeline for employers...");
+  const churnOptions: ChurnOptions = { ...DEFAULT_CHURN_OPTIONS, ...options.churn };
+  const redaction = options.redaction || NO_REDACTION;
+  const eventRecords = [];
+  const alertRecords = [];
+  const failures: EntityFailure[] = [];
+
+  try {
+    for (const employerId of employerIds) {
+      try {
+        log(`Building the bank account timeline of ${employerId}...`);
+        const accounts = await fetchListWithStore(
+          "employerBankAccount",
+          employerId,
+          () => fetchEmployerBankAccounts(employerId),
+          (account) => account.id
+        );
+        const accountIds = accounts.filter((account) => account.id).map((account) => account.id);
+        const authorizers = await fetchBatchWithStore(
+          "paymentAuthorization",
+          accountIds,
+          fetchAuthorizerInfoBatch
+        );
+        const debits = await fetchEmployerDebits(employerId);
+
+        const events = buildBankAccountTimeline(employerId, accounts);
+        const alerts = detectChurn(employerId, events, debits, churnOptions);
+        log(
+          `${employerId}: ${events.length} bank account events, ${debits.length} debits, ${alerts.length} churn alerts`
+        );
+
+        for (const event of events) {
+          const authorizer: AuthorizerInfo | undefined = getCurrentAuthorizer(
+            authorizers.get(event.account.id) || []
+          );
+          eventRecords.push({
+            employer_id: employerId,
+            date: event.date,
+            date_inferred: event.dateInferred ? "yes" : "",
+            event: event.type,
+            account_id: event.account.id,
+            related_account_id: event.relatedAccountId,
+            bank_name: event.account.bankName || "",
+            routing_number: event.account.routingNumber || "",
+            account_number: redactIdentifier(event.account.accountNumber, redaction),
+            authorizer_name: authorizer
+              ? `${authorizer.authorizerFirstName || ""} ${authorizer.authorizerLastName || ""}`.trim()
+              : "",
+            authorizer_email: authorizer?.authorizerEmail || "",
+            client_ip: authorizer?.clientIpAddress || "",
+          });
+        }
+        for (const alert of alerts) {
+          alertRecords.push({
+            employer_id: employerId,
+            pattern: alert.pattern,
+            window_start: alert.windowStart,
+            window_end: alert.windowEnd,
+            change_count: alert.changeCount,
+            account_ids: alert.accountIds.join(", "),
+            payment_order_id: alert.debit?.id || "",
+            debit_amount: alert.debit?.amount ?? "",
+            debit_status: alert.debit?.status || "",
+          });
+        }
+      } catch (error) {
+        logError(`Error building the bank account timeline of ${employerId}:`, error);
+        failures.push({ entityId: employerId, error: describeError(error) });
+      }
+    }
+  } finally {
+    await closeNeo4jConnection();
+  }
+
+  log(`Writing ${eventRecords.length} records...`);
+  log(`Applying redaction profile: ${describeRedaction(redaction)}`);
+  const outputPath = await writeDataset(
+    {
+      name: "bank-account-timeline",
+      sheetName: "Bank account timeline",
+      columns: [
+        { id: "employer_id", title: "Employer ID" },
+        { id: "date", title: "Date" },
+        { id: "date_inferred", title: "Date inferred" },
+        { id: "event", title: "Event" },
+        { id: "account_id", title: "Employer bank account ID" },
+        { id: "related_account_id", title: "Replaced / replaced by" },
+        { id: "bank_name", title: "Bank name" },
+        { id: "routing_number", title: "Routing number" },
+        { id: "account_number", title: "Account number" },
+        { id: "authorizer_name", title: "Authorizer name" },
+        { id: "authorizer_email", title: "Authorizer email" },
+        { id: "client_ip", title: "Client IP" },
+      ],
+      records: eventRecords,
+    },
+    options
+  );
+  log(`Data has been written to ${outputPath}`);
+
+  log(`Writing ${alertRecords.length} churn alerts...`);
+  const churnPath = await writeDataset(
+    {
+      name: "bank-account-churn",
+      sheetName: "Bank account churn",
+      columns: [
+        { id: "employer_id", title: "Employer ID" },
+        { id: "pattern", title: "Pattern" },
+        { id: "window_start", title: "Window start" },
+        { id: "window_end", title: "Window end" },
+        { id: "change_count", title: "Change count" },
+        { id: "account_ids", title: "Employer bank account IDs" },
+        { id: "payment_order_id", title: "Debit payment order ID" },
+        { id: "debit_amount", title: "Debit amount" },
+        { id: "debit_status", title: "Debit status" },
+      ],
+      records: alertRecords,
+    },
+    options
+  );
+  log(`Data has been written to ${churnPath}`);
+
+  return {
+    dataset: "bank-account-timeline",
+    outputPath,
+    recordCount: eventRecords.length,
+    failures,
+    churn: {
+      dataset: "bank-account-churn",
+      outputPath: churnPath,
+      recordCount: alertRecords.length,
+      // The employers that failed have no alerts either
+      failures,
+    },
+  };
+}
@@ -0,0 +1,230 @@
+import * as path from "path";
+import { describeError, log, logError } from "../utils/logger";
+import {
+  createOutputWriter,
+  DEFAULT_OUTPUT_DIR,
+  OutputFormat,
+} from "../utils/output";
+import { getRetrySummary, RetryStats } from "../integrations/http-client";
+import { EncryptionOptions } from "../utils/encryption";
+import {
+  describeRedaction,
+  NO_REDACTION,
+  RedactionOptions,
+} from "../utils/redaction";
+import { getIncreaseTransactions } from "./increase-transactions";
+import { getEmployerInfo } from "./employer-info";
+import { getEmployerBankInfo } from "./employer-bank-info";
+import { getWorkerBankInfo } from "./worker-bank-info";
+import { getWorkerInfo } from "./worker-info";
+import { resolveEmployerIds } from "./employer-resolution";
+import {
+  CASE_MANIFEST_FILE,
+  createIntegrityManifest,
+  IntegrityManifest,
+  writeManifest,
+} from "./integrity-manifest";
+import { EntityFailure, ServiceResult } from "./types";
+
+export interface BuildCaseParams {
+  caseId: string;
+  employerIds: string[];
+  payrollRunIds: string[];
+  // Passed on to the Increase transaction lookups
+  concurrency?: number;
+  redaction?: RedactionOptions;
+  encryption?: EncryptionOptions;
+  // Parent of the cases/ folder, defaults to "output"
+  outputDir?: string;
+  // Defaults to one CSV file per dataset; xlsx writes a single <case-id>.xlsx
+  format?: OutputFormat;
+}
+
+export interface CaseManifestDataset {
+  dataset: string;
+  file: string | null;
+  recordCount: number;
+  failures: EntityFailure[];
+}
+
+export interface CaseManifest extends IntegrityManifest {
+  caseId: string;
+  inputs: {
+    employerIds: string[];
+    payrollRunIds: string[];
+    // Employer IDs derived from the payroll runs when none were given
+    resolvedEmployerIds?: Record<string, string[]>;
+  };
+  // Redaction profile applied to every dataset of the case
+  redaction: string;
+  // Whether the dataset files are encrypted (.enc)
+  encrypted: boolean;
+  format: OutputFormat;
+  datasets: CaseManifestDataset[];
+  warnings: string[];
+  // HTTP retries needed per provider while building the case
+  httpRetries: Record<string, RetryStats>;
+}
+
+const CASE_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Returns the folder a case is written into
+ */
+export function getCaseDir(
+  caseId: string,
+  outputDir: string = DEFAULT_OUTPUT_DIR
+): string {
+  return path.join(outputDir, "cases", caseId);
+}
+
+/**
+ * Runs every dataset for one UAR case into <output-dir>/cases/<case-id>/ and
+ * writes a manifest.json describing the run next to the datasets
+ */
+export async function buildCase(params: BuildCaseParams): Promise<CaseManifest> {
+  const { caseId, payrollRunIds } = params;
+  let employerIds = params.employerIds;
+
+  if (!CASE_ID_PATTERN.test(caseId)) {
+    throw new Error(
+      `Invalid case ID "${caseId}": only letters, digits, ".", "_" and "-" are allowed`
+    );
+  }
+  if (employerIds.length === 0 && payrollRunIds.length === 0) {
+    throw new Error("At least one employer ID or payroll run ID is required");
+  }
+
+  const caseDir = getCaseDir(caseId, params.outputDir);
+  const redaction = params.redaction || NO_REDACTION;
+  const format = params.format || "csv";
+  const writer = createOutputWriter(
+    format,
+    { outputDir: caseDir, encryption: params.encryption },
+    caseId
+  );
+  const options = {
+    outputDir: caseDir,
+    redaction,
+    encryption: params.encryption,
+    writer,
+  };
+  const startedAt = new Date().toISOString();
+  const datasets: CaseManifestDataset[] = [];
+  const results: ServiceResult[] = [];
+  const warnings: string[] = [];
+  let resolvedEmployerIds: Record<string, string[]> | undefined;
+
+  log(`Building case ${caseId} into ${caseDir}`);
+
+  if (employerIds.length === 0) {
+    const resolution = await resolveEmployerIds(payrollRunIds);
+    employerIds = resolution.employerIds;
+    warnings.push(...resolution.warnings);
+    const byPayrollRun: Record<string, string[]> = {};
+    resolution.employerIdsByPayrollRun.forEach((ids, payrollRunId) => {
+      byPayrollRun[payrollRunId] = ids;
+    });
+    resolvedEmployerIds = byPayrollRun;
+  }
+
+  const steps: Array<{ dataset: string; run: () => Promise<ServiceResult[]> }> = [];
+  if (payrollRunIds.length > 0) {
+    steps.push({
+      dataset: "increase-transactions",
+      run: async () => {
+        const result = await getIncreaseTransactions(payrollRunIds, {
+          ...options,
+          concurrency: params.concurrency,
+        });
+        return [result, result.workerSummary];
+      },
+    });
+  }
+  if (employerIds.length > 0) {
+    steps.push(
+      {
+        dataset: "employer-business-info",
+        run: async () => {
+          const result = await getEmployerInfo(employerIds, options);
+          return [result, result.owners];
+        },
+      },
+      {
+        dataset: "employer-bank-info",
+        run: async () => {
+          const result = await getEmployerBankInfo(employerIds, options);
+          return [result, result.authorizations];
+        },
+      },
+      {
+        dataset: "worker-bank-info",
+        run: async () => [await getWorkerBankInfo(employerIds, options)],
+      },
+      {
+        dataset: "worker-personal-info",
+        run: async () => {
+          const result = await getWorkerInfo(employerIds, "employer", options);
+          return [result, result.employment];
+        },
+      }
+    );
+  }
+
+  for (const [index, step] of steps.entries()) {
+    log(`${index + 1}/${steps.length}. Building ${step.dataset}`);
+    try {
+      const stepResults = await step.run();
+      results.push(...stepResults);
+      for (const result of stepResults) {
+        datasets.push({
+          dataset: result.dataset,
+          file: result.outputPath ? path.basename(result.outputPath) : null,
+          recordCount: result.recordCount,
+          failures: result.failures,
+        });
+      }
+    } catch (error) {
+      // Keep going so the case folder still holds every dataset that succeeded
+      logError(`Error building ${step.dataset} for case ${caseId}:`, error);
+      datasets.push({
+        dataset: step.dataset,
+        file: null,
+        recordCount: 0,
+        failures: [{ entityId: "*", error: describeError(error) }],
+      });
+    }
+  }
+
+  await writer.finish();
+
+  const manifest: CaseManifest = {
+    ...createIntegrityManifest({
+      command: "build-case",
+      dir: caseDir,
+      inputs: { employerIds: params.employerIds, payrollRunIds },
+      startedAt,
+      results,
+    }),
+    caseId,
+    inputs: { employerIds: params.employerIds, payrollRunIds, resolvedEmployerIds },
+    redaction: describeRedaction(redaction),
+    encrypted: !!params.encryption,
+    format,
+    datasets,
+    warnings,
+    httpRetries: getRetrySummary(),
+  };
+
+  writeManifest(caseDir, CASE_MANIFEST_FILE, manifest);
+
+  const failureCount = datasets.reduce(
+    (count, dataset) => count + dataset.failures.length,
+    0
+  );
+  if (failureCount > 0) {
+    logError(`Case ${caseId} finished with ${failureCount} failure(s), see ${CASE_MANIFEST_FILE}`);
+  }
+
+  return manifest;
+}
@@ -1,20 +1,48 @@
-import { createObjectCsvWriter } from "csv-writer";
-import { log, logError } from "../utils/logger";
+import { describeError, log, logError } from "../utils/logger";
+import { OutputColumn, writeDataset } from "../utils/output";
+import {
+  describeRedaction,
+  hashIdentifier,
+  NO_REDACTION,
+  redactIdentifier,
+} from "../utils/redaction";
 import { 
+  AuthorizerInfo,
+  EmployerBankAccount,
   fetchEmployerBankAccounts, 
   closeNeo4jConnection, 
-  fetchAuthorizerInfoBatch 
+  fetchAuthorizerInfoBatch,
+  getCurrentAuthorizer,
 } from "../integrations/salsa-neo4j";
+import { fetchBatchWithStore, fetchListWithStore } from "./entity-store";
+import { mapRoutingNumberColumns, ROUTING_NUMBER_COLUMNS } from "./routing-numbers";
+import { EntityFailure, ServiceOptions, ServiceResult } from "./types";
 
-export async function getEmployerBankInfo(employerIds: string[]): Promise<void> {
+export interface EmployerBankInfoResult extends ServiceResult {
+  // Every authorization signature of the same bank accounts
+  authorizations: ServiceResult;
+}
+
+export async function getEmployerBankInfo(
+  employerIds: string[],
+  options: ServiceOptions = {}
+): Promise<EmployerBankInfoResult> {
   log("Starting data fetch process for Employer Bank Accounts...");
   const allRecords = [];
+  const authorizationRecords = [];
+  const failures: EntityFailure[] = [];
+  const redaction = options.redaction || NO_REDACTION;
 
   try {
     for (const employerId of employerIds) {
       try {
         log(`Fetching bank account data from Neo4j for ${employerId}...`);
-        const bankAccounts = await fetchEmployerBankAccounts(employerId);
+        const bankAccounts = await fetchListWithStore(
+          "employerBankAccount",
+          employerId,
+          () => fetchEmployerBankAccounts(employerId),
+          (account) => account.id
+        );
         
         if (bankAccounts.length === 0) {
           log(`No bank accounts found for employer ${employerId}`);
@@ -29,10 +57,14 @@ export async function getEmployerBankInfo(employerIds: string[]): Promise<void>
           .map(account => account.id);
           
         // Fetch authorizer information in batch for better performance
-        let authorizerInfoMap = new Map();
+        let authorizerInfoMap = new Map<string, AuthorizerInfo[]>();
         if (bankAccountIds.length > 0) {
           log(`Fetching authorizer info for ${bankAccountIds.length} bank accounts...`);
-          authorizerInfoMap = await fetchAuthorizerInfoBatch(bankAccountIds);
+          authorizerInfoMap = await fetchBatchWithStore(
+            "paymentAuthorization",
+            bankAccountIds,
+            fetchAuthorizerInfoBatch
+          );
           log(`Found authorizer info for ${authorizerInfoMap.size} bank accounts`);
         }
         
@@ -43,9 +75,10 @@ export async function getEmployerBankInfo(employerIds: string[]): Promise<void>
           let authorizerEmail = "";
           let clientIp = "";
           
-          // Get authorizer information from the map if available
-          if (account.id && authorizerInfoMap.has(account.id)) {
-            const authInfo = authorizerInfoMap.get(account.id);
+          // Get the current signer from the map if available
+          const signatures = (account.id && authorizerInfoMap.get(account.id)) || [];
+          const authInfo = getCurrentAuthorizer(signatures);
+          if (authInfo) {
             authorizerFirstName = authInfo.authorizerFirstName || "";
             authorizerLastName = authInfo.authorizerLastName || "";
             authorizerEmail = authInfo.authorizerEmail || "";
@@ -55,7 +88,8 @@ export async function getEmployerBankInfo(employerIds: string[]): Promise<void>
           allRecords.push({
             employer_id: account.employerId,
             bank_name: account.bankName || "",
-            account_number: account.accountNumber || "",
+            account_number: redactIdentifier(account.accountNumber, redaction),
+            account_number_hmac: hashIdentifier(account.accountNumber, redaction),
             routing_number: account.routingNumber || "",
             party_name: account.partyName || "",
             authorizer_first_name: authorizerFirstName || "null",
@@ -63,43 +97,136 @@ export async function getEmployerBankInfo(employerIds: string[]): Promise<void>
             authorizer_email: authorizerEmail || "null",
             client_ip: clientIp || "null",
             id: account.id,
+            ...mapRoutingNumberColumns(account.routingNumber, account.bankName),
           });
+          authorizationRecords.push(...mapAuthorizationsToRecords(account, signatures));
         }
         
         log(`Added ${bankAccounts.length} bank account records for employer ID: ${employerId}`);
       } catch (error) {
         logError(`Error processing employer ${employerId}:`, error);
+        failures.push({ entityId: employerId, error: describeError(error) });
         // Continue with the next employer instead of failing the entire process
       }
     }
     
     if (allRecords.length === 0) {
       log("No bank account records found for any employers");
-      return;
+      return {
+        dataset: "employer-bank-info",
+        outputPath: null,
+        recordCount: 0,
+        failures,
+        authorizations: {
+          dataset: "payment-authorizations",
+          outputPath: null,
+          recordCount: 0,
+          failures: [],
+        },
+      };
     }
     
-    log(`Writing ${allRecords.length} records to CSV...`);
+    log(`Writing ${allRecords.length} records...`);
     
-    const csvWriter = createObjectCsvWriter({
-      path: "output/employer-bank-info.csv",
-      header: [
-        { id: "employer_id", title: "Employer id" },
-        { id: "bank_name", title: "Bank name" },
-        { id: "account_number", title: "Account Number" },
-        { id: "routing_number", title: "Routing number" },
-        { id: "party_name", title: "Party name" },
-        { id: "authorizer_first_name", title: "Authorizer first name" },
-        { id: "authorizer_last_name", title: "Authorizer last name" },
-        { id: "authorizer_email", title: "Authorizer email" },
-        { id: "client_ip", title: "Client IP" },
-        { id: "id", title: "Employer bank account id" },
-      ]
-    });
-    
-    await csvWriter.writeRecords(allRecords);
-    log("Data has been written to employer-bank-info.csv");
+    const columns: OutputColumn[] = [
+      { id: "employer_id", title: "Employer id" },
+      { id: "bank_name", title: "Bank name" },
+      { id: "account_number", title: "Account Number" },
+      { id: "routing_number", title: "Routing number" },
+      { id: "party_name", title: "Party name" },
+      { id: "authorizer_first_name", title: "Authorizer first name" },
+      { id: "authorizer_last_name", title: "Authorizer last name" },
+      { id: "authorizer_email", title: "Authorizer email" },
+      { id: "client_ip", title: "Client IP" },
+      { id: "id", title: "Employer bank account id" },
+      ...ROUTING_NUMBER_COLUMNS,
+    ];
+    if (redaction.hmacKey) {
+      columns.push({ id: "account_number_hmac", title: "Account number HMAC" });
+    }
+
+    log(`Applying redaction profile: ${describeRedaction(redaction)}`);
+    const outputPath = await writeDataset(
+      {
+        name: "employer-bank-info",
+        sheetName: "Employer bank accounts",
+        columns,
+        records: allRecords,
+      },
+      options
+    );
+    log(`Data has been written to ${outputPath}`);
+
+    const authorizations = await writePaymentAuthorizations(authorizationRecords, options);
+
+    return {
+      dataset: "employer-bank-info",
+      outputPath,
+      recordCount: allRecords.length,
+      failures,
+      authorizations,
+    };
   } finally {
     // Close Neo4j connection when done
     await closeNeo4jConnection();
   }
-} 
\ No newline at end of file
+}
+
+async function writePaymentAuthorizations(
+  records: object[],
+  options: ServiceOptions
+): Promise<ServiceResult> {
+  log(`Writing ${records.length} payment authorization signatures...`);
+
+  const outputPath = await writeDataset(
+    {
+      name: "payment-authorizations",
+      sheetName: "Payment authorizations",
+      columns: [
+        { id: "employer_id", title: "Employer ID" },
+        { id: "bank_account_id", title: "Employer bank account ID" },
+        { id: "bank_account_status", title: "Bank account status" },
+        { id: "authorization_id", title: "Authorization ID" },
+        { id: "authorization_type", title: "Authorization type" },
+        { id: "authorization_version", title: "Authorization version" },
+        { id: "signed_date", title: "Signed date" },
+        { id: "revoked", title: "Revoked" },
+        { id: "revoked_date", title: "Revoked date" },
+        { id: "signature_id", title: "Signature ID" },
+        { id: "authorizer_first_name", title: "Authorizer first name" },
+        { id: "authorizer_last_name", title: "Authorizer last name" },
+        { id: "authorizer_email", title: "Authorizer email" },
+        { id: "client_ip", title: "Client IP" },
+      ],
+      records,
+    },
+    options
+  );
+  log(`Data has been written to ${outputPath}`);
+
+  return {
+    dataset: "payment-authorizations",
+    outputPath,
+    recordCount: records.length,
+    failures: [],
+  };
+}
+
+function mapAuthorizationsToRecords(account: EmployerBankAccount, signatures: AuthorizerInfo[]) {
+  return signatures.map((signature) => ({
+    employer_id: account.employerId,
+    bank_account_id: account.id,
+    bank_account_status: account.isDeleted ? "deleted" : "active",
+    authorization_id: signature.authorizationId || "",
+    authorization_type: signature.authorizationType || "",
+    authorization_version: signature.authorizationVersion || "",
+    signed_date: signature.signedDate || "",
+    revoked: signature.isRevoked ? "yes" : "no",
+    revoked_date: signature.revokedDate || "",
+    signature_id: signature.signatureId || "",
+    authorizer_first_name: signature.authorizerFirstName || "",
+    authorizer_last_name: signature.authorizerLastName || "",
+    authorizer_email: signature.authorizerEmail || "",
+    client_ip: signature.clientIpAddress || "",
+  }));
+}
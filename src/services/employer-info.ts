@@ -1,49 +1,175 @@
-import { createObjectCsvWriter } from "csv-writer";
-import { log, logError } from "../utils/logger";
-import { fetchEmployerById } from "../integrations/salsa-graphql";
+import { describeError, log, logError } from "../utils/logger";
+import { writeDataset } from "../utils/output";
+import {
+  describeRedaction,
+  NO_REDACTION,
+  redactDateOfBirth,
+  RedactionOptions,
+} from "../utils/redaction";
+import {
+  EmployerInfo,
+  EmployerTaxIdentifier,
+  fetchEmployerById,
+} from "../integrations/salsa-graphql";
+import { fetchWithStore } from "./entity-store";
+import { EntityFailure, ServiceOptions, ServiceResult } from "./types";
 
-export async function getEmployerInfo(employerIds: string[]): Promise<void> {
+export interface EmployerInfoResult extends ServiceResult {
+  // Beneficial owners and officers of the same employers
+  owners: ServiceResult;
+}
+
+export async function getEmployerInfo(
+  employerIds: string[],
+  options: ServiceOptions = {}
+): Promise<EmployerInfoResult> {
   log("Starting data fetch process for Employers...");
   const allRecords = [];
+  const ownerRecords = [];
+  const failures: EntityFailure[] = [];
+  const redaction = options.redaction || NO_REDACTION;
 
   for (const employerId of employerIds) {
     try {
       log(`Fetching employer data from Salsa API for ${employerId} ...`);
-      const employerInfo = await fetchEmployerById(employerId);
+      const employerInfo = await fetchWithStore("employer", employerId, () =>
+        fetchEmployerById(employerId)
+      );
 
       allRecords.push({
         employer_id: employerInfo.employerId,
         business_name: employerInfo.businessName,
+        legal_name: employerInfo.legalName || "",
         ein: employerInfo.ein,
+        tax_identifiers: formatTaxIdentifiers(employerInfo.taxIdentifiers || []),
+        incorporation_date: employerInfo.incorporationDate || "",
+        incorporation_state: employerInfo.incorporationState || "",
+        contact_email: employerInfo.contactEmail || "",
+        contact_phone: employerInfo.contactPhone || "",
         address_line1: employerInfo.addressLine1,
         address_line2: employerInfo.addressLine2,
         city: employerInfo.city,
         state: employerInfo.state,
         postal_code: employerInfo.postalCode,
       });
+      ownerRecords.push(...mapOwnersToRecords(employerInfo, redaction));
       log("Added record with employer ID:", employerInfo.employerId);
     } catch (error) {
-      logError("Error fetching employer information:", error);
-      throw error;
+      logError(`Error fetching employer information for ${employerId}:`, error);
+      failures.push({ entityId: employerId, error: describeError(error) });
     }
   }
 
-  log(`Writing ${allRecords.length} records to CSV...`);
-
-  const csvWriter = createObjectCsvWriter({
-    path: "output/employer-business-info.csv",
-    header: [
-      { id: "employer_id", title: "Employer ID" },
-      { id: "business_name", title: "Business name" },
-      { id: "ein", title: "EIN" },
-      { id: "address_line1", title: "Address line 1" },
-      { id: "address_line2", title: "Address line 2" },
-      { id: "city", title: "City" },
-      { id: "state", title: "State" },
-      { id: "postal_code", title: "Postal code" },
-    ],
-  });
-
-  await csvWriter.writeRecords(allRecords);
-  log("Data has been written to employer-business-info.csv");
+  log(`Writing ${allRecords.length} records...`);
+
+  const outputPath = await writeDataset(
+    {
+      name: "employer-business-info",
+      sheetName: "Employers",
+      columns: [
+        { id: "employer_id", title: "Employer ID" },
+        { id: "business_name", title: "Business name" },
+        { id: "legal_name", title: "Legal name" },
+        { id: "ein", title: "EIN" },
+        { id: "tax_identifiers", title: "Tax identifiers" },
+        { id: "incorporation_date", title: "Incorporation date" },
+        { id: "incorporation_state", title: "Incorporation state" },
+        { id: "contact_email", title: "Contact email" },
+        { id: "contact_phone", title: "Contact phone" },
+        { id: "address_line1", title: "Address line 1" },
+        { id: "address_line2", title: "Address line 2" },
+        { id: "city", title: "City" },
+        { id: "state", title: "State" },
+        { id: "postal_code", title: "Postal code" },
+      ],
+      records: allRecords,
+    },
+    options
+  );
+  log(`Data has been written to ${outputPath}`);
+
+  const owners = await writeEmployerOwners(ownerRecords, redaction, failures, options);
+
+  return {
+    dataset: "employer-business-info",
+    outputPath,
+    recordCount: allRecords.length,
+    failures,
+    owners,
+  };
+}
+
+async function writeEmployerOwners(
+  records: object[],
+  redaction: RedactionOptions,
+  // Employers that failed, so without their owners either
+  failures: EntityFailure[],
+  options: ServiceOptions
+): Promise<ServiceResult> {
+  log(`Writing ${records.length} employer owners and officers...`);
+  log(`Applying redaction profile: ${describeRedaction(redaction)}`);
+
+  const outputPath = await writeDataset(
+    {
+      name: "employer-owners",
+      sheetName: "Employer owners",
+      columns: [
+        { id: "employer_id", title: "Employer ID" },
+        { id: "first_name", title: "First name" },
+        { id: "last_name", title: "Last name" },
+        { id: "title", title: "Title" },
+        { id: "roles", title: "Roles" },
+        { id: "ownership_percentage", title: "Ownership %" },
+        { id: "date_of_birth", title: "Date of birth" },
+        { id: "address_line1", title: "Address line 1" },
+        { id: "address_line2", title: "Address line 2" },
+        { id: "city", title: "City" },
+        { id: "state", title: "State" },
+        { id: "postal_code", title: "Postal code" },
+        { id: "country", title: "Country" },
+      ],
+      records,
+    },
+    options
+  );
+  log(`Data has been written to ${outputPath}`);
+
+  return {
+    dataset: "employer-owners",
+    outputPath,
+    recordCount: records.length,
+    failures,
+  };
+}
+
+/**
+ * Formats tax identifiers as "FEIN (Federal): 12-3456789; ..."
+ */
+function formatTaxIdentifiers(taxIdentifiers: EmployerTaxIdentifier[]): string {
+  return taxIdentifiers
+    .map((taxId) =>
+      taxId.jurisdiction
+        ? `${taxId.name} (${taxId.jurisdiction}): ${taxId.value}`
+        : `${taxId.name}: ${taxId.value}`
+    )
+    .join("; ");
+}
+
+// Employers stored before owners were fetched have no owners field
+function mapOwnersToRecords(employer: EmployerInfo, redaction: RedactionOptions) {
+  return (employer.owners || []).map((owner) => ({
+    employer_id: employer.employerId,
+    first_name: owner.firstName,
+    last_name: owner.lastName,
+    title: owner.title,
+    roles: owner.roles.join(", "),
+    ownership_percentage: owner.ownershipPercentage ?? "",
+    date_of_birth: redactDateOfBirth(owner.dateOfBirth, redaction),
+    address_line1: owner.addressLine1,
+    address_line2: owner.addressLine2 || "",
+    city: owner.city,
+    state: owner.state,
+    postal_code: owner.postalCode,
+    country: owner.country,
+  }));
 }
@@ -0,0 +1,113 @@
+import { fetchPaymentOrders } from "../integrations/modern-treasury";
+import { fetchPayrollRunEmployerId } from "../integrations/salsa-graphql";
+import { describeError, log, logDebug, logWarn } from "../utils/logger";
+
+export interface EmployerResolution {
+  // Unique employer IDs across every payroll run, in first-seen order
+  employerIds: string[];
+  // Employer IDs found for each payroll run
+  employerIdsByPayrollRun: Map<string, string[]>;
+  warnings: string[];
+}
+
+// Page size of the payment orders read to cross-check the payroll run owner
+const RESOLUTION_PAGE_SIZE = 100;
+
+/**
+ * Reads the employer IDs Salsa tags payment orders with in Modern Treasury
+ * metadata for one payroll run, across every page of its orders
+ */
+async function resolveFromPaymentOrders(payrollRunId: string): Promise<string[]> {
+  const paymentOrders = await fetchPaymentOrders({
+    per_page: RESOLUTION_PAGE_SIZE,
+    "metadata[payrollRunId]": payrollRunId,
+  });
+
+  const employerIds: string[] = [];
+  for (const order of paymentOrders) {
+    const employerId = order.metadata?.employerId;
+    if (employerId && !employerIds.includes(employerId)) {
+      employerIds.push(employerId);
+    }
+  }
+  return employerIds;
+}
+
+/**
+ * Finds the owning employer of each payroll run from the Salsa payroll run
+ * and the employerId metadata of its Modern Treasury payment orders. The
+ * Salsa owner comes first; employers only found in the metadata are kept
+ * after it and reported as a mismatch.
+ */
+export async function resolveEmployerIds(
+  payrollRunIds: string[]
+): Promise<EmployerResolution> {
+  log(`Resolving employers for ${payrollRunIds.length} payroll run(s)...`);
+
+  const resolution: EmployerResolution = {
+    employerIds: [],
+    employerIdsByPayrollRun: new Map(),
+    warnings: [],
+  };
+
+  const warn = (message: string) => {
+    logWarn(message);
+    resolution.warnings.push(message);
+  };
+
+  for (const payrollRunId of payrollRunIds) {
+    let salsaEmployerId: string | null = null;
+    let paymentOrderEmployerIds: string[] = [];
+
+    try {
+      salsaEmployerId = await fetchPayrollRunEmployerId(payrollRunId);
+    } catch (error) {
+      warn(
+        `Could not read payroll run ${payrollRunId} from Salsa: ${describeError(error)}`
+      );
+    }
+
+    try {
+      paymentOrderEmployerIds = await resolveFromPaymentOrders(payrollRunId);
+      logDebug(
+        `Payment order metadata for ${payrollRunId} references employer(s):`,
+        paymentOrderEmployerIds
+      );
+    } catch (error) {
+      warn(
+        `Could not read payment orders for ${payrollRunId}: ${describeError(error)}`
+      );
+    }
+
+    const employerIds = salsaEmployerId ? [salsaEmployerId] : [];
+    for (const employerId of paymentOrderEmployerIds) {
+      if (!employerIds.includes(employerId)) {
+        employerIds.push(employerId);
+      }
+    }
+
+    if (employerIds.length === 0) {
+      warn(`No employer found for payroll run ${payrollRunId}`);
+    } else if (salsaEmployerId && employerIds.length > 1) {
+      warn(
+        `Payroll run ${payrollRunId} is owned by ${salsaEmployerId} in Salsa but its payment orders reference ${paymentOrderEmployerIds.join(", ")}`
+      );
+    } else if (employerIds.length > 1) {
+      warn(
+        `Payroll run ${payrollRunId} references several employers: ${employerIds.join(", ")}`
+      );
+    }
+
+    resolution.employerIdsByPayrollRun.set(payrollRunId, employerIds);
+    for (const employerId of employerIds) {
+      if (!resolution.employerIds.includes(employerId)) {
+        resolution.employerIds.push(employerId);
+      }
+    }
+  }
+
+  log(
+    `Resolved ${resolution.employerIds.length} employer(s) from ${payrollRunIds.length} payroll run(s)`
+  );
+  return resolution;
+}
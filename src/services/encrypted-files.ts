@@ -0,0 +1,64 @@
+import * as fs from "fs";
+import { describeError, log, logError } from "../utils/logger";
+import {
+  decryptBuffer,
+  DecryptionKeys,
+  ENCRYPTED_FILE_EXTENSION,
+} from "../utils/encryption";
+
+/**
+ * Reads the decryption keys: the passphrase from UAR_ENCRYPTION_PASSPHRASE
+ * and, when given, the private key file matching the recipient key
+ */
+export function getDecryptionKeys(identityFile?: string): DecryptionKeys {
+  return {
+    passphrase: process.env.UAR_ENCRYPTION_PASSPHRASE || undefined,
+    identityPrivateKey: identityFile
+      ? fs.readFileSync(identityFile, "utf8")
+      : undefined,
+  };
+}
+
+/**
+ * Decrypts an exported file into outputPath, or next to it without the .enc
+ * extension. Returns the path written.
+ */
+export function decryptFile(
+  filePath: string,
+  keys: DecryptionKeys,
+  outputPath?: string
+): string {
+  const targetPath =
+    outputPath ||
+    (filePath.endsWith(ENCRYPTED_FILE_EXTENSION)
+      ? filePath.slice(0, -ENCRYPTED_FILE_EXTENSION.length)
+      : `${filePath}.decrypted`);
+
+  const plaintext = decryptBuffer(fs.readFileSync(filePath), keys);
+  fs.writeFileSync(targetPath, plaintext);
+  log(`Decrypted ${filePath} into ${targetPath}`);
+  return targetPath;
+}
+
+/**
+ * Checks that each encrypted file decrypts and authenticates with the given
+ * keys, without writing the plaintext anywhere. Returns true when all pass.
+ */
+export function verifyEncryptedFiles(
+  filePaths: string[],
+  keys: DecryptionKeys
+): boolean {
+  let allValid = true;
+
+  for (const filePath of filePaths) {
+    try {
+      decryptBuffer(fs.readFileSync(filePath), keys);
+      log(`OK      ${filePath}`);
+    } catch (error) {
+      allValid = false;
+      logError(`FAILED  ${filePath}: ${describeError(error)}`);
+    }
+  }
+
+  return allValid;
+}
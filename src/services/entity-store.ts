@@ -0,0 +1,270 @@
+import { log, logDebug } from "../utils/logger";
+import { recordSourceRequest } from "../integrations/sources";
+import {
+  fetchPaymentOrders,
+  FetchPaymentOrdersOptions,
+  ModernTreasuryPaymentOrder,
+} from "../integrations/modern-treasury";
+import {
+  fetchWorkerBankAccounts,
+  WorkerBankAccount,
+} from "../integrations/salsa-neo4j";
+import {
+  describeStore,
+  isStoreConfigured,
+  loadEntities,
+  loadScope,
+  saveEntities,
+  StoreEntityType,
+} from "../integrations/postgres-store";
+
+export interface EntityStoreOptions {
+  // Save fetched entities into the store of DATABASE_URL
+  enabled?: boolean;
+  // Entities stored more recently than this are not fetched again
+  maxAgeMs?: number;
+}
+
+let storeOptions: EntityStoreOptions = {};
+
+/**
+ * Turns the store on and sets how fresh stored entities must be to be
+ * reused. Without a max age every entity is fetched again, and still saved.
+ * DATABASE_URL alone never turns the store on.
+ */
+export function configureEntityStore(options: EntityStoreOptions): void {
+  if (options.enabled && !isStoreConfigured()) {
+    throw new Error("DATABASE_URL environment variable is required to use the store");
+  }
+  storeOptions = options;
+  if (!options.enabled && isStoreConfigured()) {
+    log("DATABASE_URL is set but the store is off, pass --store to save fetched entities");
+  }
+  if (options.enabled) {
+    log(
+      `Storing fetched entities in ${describeStore()}` +
+        (options.maxAgeMs !== undefined
+          ? `, reusing the ones fetched in the last ${Math.round(options.maxAgeMs / 1000)}s`
+          : "")
+    );
+  }
+}
+
+/**
+ * Returns the oldest fetch time still reusable, or null when stored entities
+ * must not be reused
+ */
+function getMinFetchedAt(): Date | null {
+  if (!storeOptions.enabled || storeOptions.maxAgeMs === undefined) {
+    return null;
+  }
+  return new Date(Date.now() - storeOptions.maxAgeMs);
+}
+
+function recordStoreHit(type: StoreEntityType, count: number): void {
+  recordSourceRequest("Postgres store", describeStore());
+  logDebug(`Reused ${count} stored ${type} entities`);
+}
+
+/**
+ * Returns the stored entity when fresh enough, otherwise fetches and stores it
+ */
+export async function fetchWithStore<T>(
+  type: StoreEntityType,
+  id: string,
+  fetch: () => Promise<T>
+): Promise<T> {
+  const minFetchedAt = getMinFetchedAt();
+  if (minFetchedAt) {
+    const stored = await loadEntities<T>(type, [id], minFetchedAt);
+    const entity = stored.get(id);
+    if (entity !== undefined) {
+      recordStoreHit(type, 1);
+      return entity;
+    }
+  }
+
+  const fetchedAt = new Date();
+  const entity = await fetch();
+  if (storeOptions.enabled) {
+    await saveEntities(type, [{ id, data: entity }], fetchedAt);
+  }
+  return entity;
+}
+
+/**
+ * Returns the entities last listed under a scope (e.g. the bank accounts of
+ * an employer) when that listing is fresh enough, otherwise lists and stores
+ * them again
+ */
+export async function fetchListWithStore<T>(
+  type: StoreEntityType,
+  scopeId: string,
+  fetch: () => Promise<T[]>,
+  getId: (entity: T) => string
+): Promise<T[]> {
+  const minFetchedAt = getMinFetchedAt();
+  if (minFetchedAt) {
+    const stored = await loadScope<T>(type, scopeId, minFetchedAt);
+    if (stored) {
+      recordStoreHit(type, stored.length);
+      return stored;
+    }
+  }
+
+  const fetchedAt = new Date();
+  const entities = await fetch();
+  if (storeOptions.enabled) {
+    await saveEntities(
+      type,
+      entities.map((entity) => ({ id: getId(entity), data: entity })),
+      fetchedAt,
+      { scopeId }
+    );
+  }
+  return entities;
+}
+
+/**
+ * Paged variant of fetchListWithStore: hands the stored listing to onPage
+ * when fresh enough, otherwise each fetched page as it arrives. Pages are
+ * stored as they come and the scope only counts as listed once the last
+ * page was stored, so a failed listing is never reused as complete.
+ */
+export async function fetchPagesWithStore<T>(
+  type: StoreEntityType,
+  scopeId: string,
+  fetchPages: (onPage: (entities: T[]) => Promise<void>) => Promise<unknown>,
+  getId: (entity: T) => string,
+  onPage: (entities: T[]) => Promise<void> | void
+): Promise<void> {
+  const minFetchedAt = getMinFetchedAt();
+  if (minFetchedAt) {
+    const stored = await loadScope<T>(type, scopeId, minFetchedAt);
+    if (stored) {
+      recordStoreHit(type, stored.length);
+      await onPage(stored);
+      return;
+    }
+  }
+
+  const fetchedAt = new Date();
+  let firstPosition = 0;
+  await fetchPages(async (entities) => {
+    if (storeOptions.enabled) {
+      await saveEntities(
+        type,
+        entities.map((entity) => ({ id: getId(entity), data: entity })),
+        fetchedAt,
+        { scopeId, firstPosition, partial: true }
+      );
+    }
+    firstPosition += entities.length;
+    await onPage(entities);
+  });
+  if (storeOptions.enabled) {
+    await saveEntities(type, [], fetchedAt, { scopeId });
+  }
+}
+
+/**
+ * Returns the fresh stored entities of a batch and fetches only the missing
+ * ones. IDs the fetch has no entity for are fetched again on every run.
+ */
+export async function fetchBatchWithStore<T>(
+  type: StoreEntityType,
+  ids: string[],
+  fetch: (missingIds: string[]) => Promise<Map<string, T>>
+): Promise<Map<string, T>> {
+  const minFetchedAt = getMinFetchedAt();
+  const entities = minFetchedAt
+    ? await loadEntities<T>(type, ids, minFetchedAt)
+    : new Map<string, T>();
+  if (entities.size > 0) {
+    recordStoreHit(type, entities.size);
+  }
+
+  const missingIds = ids.filter((id) => !entities.has(id));
+  if (missingIds.length === 0) {
+    return entities;
+  }
+
+  const fetchedAt = new Date();
+  const fetched = await fetch(missingIds);
+  const toStore: Array<{ id: string; data: T }> = [];
+  fetched.forEach((entity, id) => {
+    entities.set(id, entity);
+    toStore.push({ id, data: entity });
+  });
+  if (storeOptions.enabled && toStore.length > 0) {
+    await saveEntities(type, toStore, fetchedAt);
+  }
+  return entities;
+}
+
+/**
+ * Lists the payment orders of a payroll run. Partial listings (pagination
+ * guards) bypass the store so they are never reused as the full list.
+ */
+export function fetchPayrollRunPaymentOrders(
+  payrollRunId: string,
+  pagination: FetchPaymentOrdersOptions = {}
+): Promise<ModernTreasuryPaymentOrder[]> {
+  const fetch = () =>
+    fetchPaymentOrders(
+      { per_page: 100, "metadata[payrollRunId]": payrollRunId },
+      pagination
+    );
+  if (pagination.maxPages || pagination.maxRecords) {
+    return fetch();
+  }
+  return fetchListWithStore("paymentOrder", payrollRunId, fetch, (order) => order.id);
+}
+
+/**
+ * Lists the payment orders debiting an employer, e.g. payroll funding
+ */
+export function fetchEmployerDebits(
+  employerId: string
+): Promise<ModernTreasuryPaymentOrder[]> {
+  return fetchListWithStore(
+    "paymentOrder",
+    `debits:${employerId}`,
+    () =>
+      fetchPaymentOrders({
+        per_page: 100,
+        "metadata[employerId]": employerId,
+        direction: "debit",
+      }),
+    (order) => order.id
+  );
+}
+
+/**
+ * Returns the store ID of a worker bank account. Worker bank accounts have
+ * no ID of their own in the graph, and an account can be listed both active
+ * and deleted.
+ */
+export function getWorkerBankAccountStoreId(account: WorkerBankAccount): string {
+  return [
+    account.workerId,
+    account.routingNumber,
+    account.accountNumber,
+    account.isDeleted ? "deleted" : "active",
+    account.createdDate,
+  ].join(":");
+}
+
+/**
+ * Lists the bank accounts of every worker of the employers
+ */
+export function fetchEmployerWorkerBankAccounts(
+  employerIds: string[]
+): Promise<WorkerBankAccount[]> {
+  return fetchListWithStore(
+    "workerBankAccount",
+    employerIds.slice().sort().join(","),
+    () => fetchWorkerBankAccounts(employerIds),
+    getWorkerBankAccountStoreId
+  );
+}
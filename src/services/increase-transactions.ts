@@ -1,84 +1,369 @@
-import { createObjectCsvWriter } from "csv-writer";
 import {
-  fetchPaymentOrders,
-  FetchPaymentOrdersParams,
+  FetchPaymentOrdersOptions,
   extractACHTransferId,
+  ModernTreasuryPaymentOrder,
 } from "../integrations/modern-treasury";
-import { fetchACHTransfer } from "../integrations/increase";
-import { log, logDebug } from "../utils/logger";
+import {
+  closeNeo4jConnection,
+  WorkerBankAccount,
+} from "../integrations/salsa-neo4j";
+import { fetchACHTransfer, fetchTransaction } from "../integrations/increase";
+import { describeError, log, logDebug, logError } from "../utils/logger";
+import { maskLast4 } from "../utils/mask";
+import {
+  describeRedaction,
+  hashIdentifier,
+  NO_REDACTION,
+  RedactionOptions,
+} from "../utils/redaction";
+import {
+  ConcurrencyLimit,
+  createConcurrencyLimit,
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+} from "../utils/concurrency";
+import { OutputColumn, writeDataset } from "../utils/output";
+import {
+  filterPaymentOrders,
+  PaymentOrderFilterOptions,
+} from "./payment-order-filter";
+import {
+  loadWorkerBankAccounts,
+  matchPaymentRecipient,
+  resolveOrderWorkerId,
+  summarizeWorkerPayments,
+  WorkerPayment,
+} from "./payment-recipients";
+import {
+  fetchPayrollRunPaymentOrders,
+  fetchWithStore,
+} from "./entity-store";
+import { EntityFailure, ServiceOptions, ServiceResult } from "./types";
+
+export interface IncreaseTransactionsOptions extends ServiceOptions {
+  pagination?: FetchPaymentOrdersOptions;
+  filters?: PaymentOrderFilterOptions;
+  // Maximum payroll runs and Increase lookups in flight at once
+  concurrency?: number;
+}
+
+export interface IncreaseTransactionsResult extends ServiceResult {
+  // Per-worker roll-up written next to the transactions
+  workerSummary: ServiceResult;
+}
+
+interface PaidOrder {
+  record: Record<string, string | number>;
+  payment: WorkerPayment;
+}
+
+interface RunContext {
+  // Shared by every payroll run so Increase sees at most `concurrency` calls
+  increaseLimit: ConcurrencyLimit;
+  counterpartyWorkerIds: Map<string, Promise<string | null>>;
+  excludedCounts: Map<string, number>;
+  redaction: RedactionOptions;
+  // Payroll runs and ACH transfers that failed, without their rows
+  failures: EntityFailure[];
+}
 
 export async function getIncreaseTransactions(
-  payrollRunIds: string[]
-): Promise<void> {
+  payrollRunIds: string[],
+  options: IncreaseTransactionsOptions = {}
+): Promise<IncreaseTransactionsResult> {
   log("Starting data fetch process for Increase transactions...");
 
-  const allRecords = [];
+  const concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+  const context: RunContext = {
+    increaseLimit: createConcurrencyLimit(concurrency),
+    counterpartyWorkerIds: new Map(),
+    excludedCounts: new Map(),
+    redaction: options.redaction || NO_REDACTION,
+    failures: [],
+  };
+  log(`Processing ${payrollRunIds.length} payroll runs with concurrency ${concurrency}`);
+
+  let paidOrdersByRun: PaidOrder[][];
+  try {
+    paidOrdersByRun = await mapWithConcurrency(
+      payrollRunIds,
+      concurrency,
+      async (payrollRunId) => {
+        try {
+          return await processPayrollRun(payrollRunId, options, context);
+        } catch (error) {
+          logError(`Error processing payroll run ${payrollRunId}:`, error);
+          context.failures.push({ entityId: payrollRunId, error: describeError(error) });
+          return [];
+        }
+      }
+    );
+  } finally {
+    await closeNeo4jConnection();
+  }
+
+  // Flattened in input order, so the output does not depend on timing
+  const allRecords: PaidOrder["record"][] = [];
+  const workerPayments: WorkerPayment[] = [];
+  for (const paidOrders of paidOrdersByRun) {
+    for (const { record, payment } of paidOrders) {
+      allRecords.push(record);
+      workerPayments.push(payment);
+    }
+  }
+  const excludedCounts = context.excludedCounts;
+
+  if (excludedCounts.size > 0) {
+    log("Excluded payment orders by reason:");
+    excludedCounts.forEach((count, reason) => log(`  ${reason}: ${count}`));
+  } else {
+    log("No payment orders were excluded");
+  }
 
-  for (const payrollRunId of payrollRunIds) {
-    log(`Fetching transaction data for payroll run ${payrollRunId} ...`);
-    const modernTreasuryParams: FetchPaymentOrdersParams = {
-      per_page: 100,
-      "metadata[payrollRunId]": payrollRunId,
-    };
-    const paymentOrders = await fetchPaymentOrders(modernTreasuryParams);
+  log(`Writing ${allRecords.length} records...`);
 
-    log(
-      `Retrieved ${paymentOrders.length} payment orders from Modern Treasury for payrollRunId: ${payrollRunId}`
+  const columns: OutputColumn[] = [
+    { id: "payroll_run_id", title: "Payroll run ID" },
+    { id: "direction", title: "Direction" },
+    { id: "effective_date", title: "Transaction date" },
+    { id: "amount", title: "Amount" },
+    { id: "transaction_id", title: "Transaction ID" },
+    { id: "kept_reason", title: "Kept reason" },
+    { id: "ach_transfer_id", title: "ACH transfer ID" },
+    { id: "ach_status", title: "ACH transfer status" },
+    { id: "statement_descriptor", title: "Statement descriptor" },
+    { id: "company_name", title: "Company name" },
+    { id: "individual_name", title: "Individual name" },
+    { id: "account_number", title: "Account number (masked)" },
+    { id: "routing_number", title: "Routing number" },
+    { id: "account_id", title: "Increase account ID" },
+    { id: "transaction_created_at", title: "Transaction created at" },
+    { id: "transaction_description", title: "Transaction description" },
+    { id: "route_type", title: "Route type" },
+    { id: "source_category", title: "Source category" },
+    { id: "signed_amount", title: "Signed amount" },
+    { id: "worker_id", title: "Worker ID" },
+    { id: "worker_name", title: "Worker name" },
+    { id: "destination_routing_number", title: "Destination routing number" },
+    { id: "destination_account_last4", title: "Destination account last 4" },
+    { id: "bank_account_match", title: "Bank account match" },
+  ];
+  if (context.redaction.hmacKey) {
+    columns.push({ id: "account_number_hmac", title: "Account number HMAC" });
+  }
+
+  log(`Applying redaction profile: ${describeRedaction(context.redaction)}`);
+  const outputPath = await writeDataset(
+    {
+      name: "increase-transactions",
+      sheetName: "Transactions",
+      columns,
+      records: allRecords,
+    },
+    options
+  );
+  log(`Data has been written to ${outputPath}`);
+
+  const workerSummary = await writeWorkerPaymentSummary(workerPayments, options);
+
+  return {
+    dataset: "increase-transactions",
+    outputPath,
+    recordCount: allRecords.length,
+    failures: context.failures,
+    workerSummary,
+  };
+}
+
+async function writeWorkerPaymentSummary(
+  workerPayments: WorkerPayment[],
+  options: ServiceOptions
+): Promise<ServiceResult> {
+  const summaries = summarizeWorkerPayments(workerPayments);
+  log(`Writing ${summaries.length} worker payment summaries...`);
+
+  const outputPath = await writeDataset(
+    {
+      name: "worker-payment-summary",
+      sheetName: "Worker payments",
+      columns: [
+        { id: "worker_id", title: "Worker ID" },
+        { id: "worker_name", title: "Worker name" },
+        { id: "total_paid", title: "Total paid" },
+        { id: "payment_count", title: "Payment count" },
+        { id: "first_effective_date", title: "First effective date" },
+        { id: "last_effective_date", title: "Last effective date" },
+      ],
+      records: summaries.map((summary) => ({
+        worker_id: summary.workerId,
+        worker_name: summary.workerName,
+        total_paid: summary.totalPaid,
+        payment_count: summary.paymentCount,
+        first_effective_date: summary.firstEffectiveDate,
+        last_effective_date: summary.lastEffectiveDate,
+      })),
+    },
+    options
+  );
+  log(`Data has been written to ${outputPath}`);
+
+  return {
+    dataset: "worker-payment-summary",
+    outputPath,
+    recordCount: summaries.length,
+    failures: [],
+  };
+}
+
+async function processPayrollRun(
+  payrollRunId: string,
+  options: IncreaseTransactionsOptions,
+  context: RunContext
+): Promise<PaidOrder[]> {
+  log(`Fetching transaction data for payroll run ${payrollRunId} ...`);
+  const paymentOrders = await fetchPayrollRunPaymentOrders(
+    payrollRunId,
+    options.pagination
+  );
+
+  log(
+    `Retrieved ${paymentOrders.length} payment orders from Modern Treasury for payrollRunId: ${payrollRunId}`
+  );
+
+  const { kept, excluded } = filterPaymentOrders(paymentOrders, options.filters);
+  for (const { order, excludedReason } of excluded) {
+    logDebug("Excluding payment order", order.id, "reason:", excludedReason);
+    context.excludedCounts.set(
+      excludedReason,
+      (context.excludedCounts.get(excludedReason) || 0) + 1
     );
+  }
+  log(
+    `Kept ${kept.length} payment orders, excluded ${excluded.length} for payrollRunId: ${payrollRunId}`
+  );
+
+  const accountsByWorker = await loadWorkerBankAccounts(
+    payrollRunId,
+    kept.map(({ order }) => order)
+  );
 
-    for (const [index, order] of paymentOrders.entries()) {
-      log(`Processing payment order ${index + 1}/${paymentOrders.length}`);
-      logDebug(
-        "Payment Order ID:",
-        order.id,
-        ", Amount:",
-        order.amount,
-        ", Direction:",
-        order.direction
-      );
-
-      const achTransferId = extractACHTransferId(order);
-      log("Found ACH Transfer ID:", achTransferId);
-
-      if (achTransferId) {
-        log("Fetching Increase data for ACH Transfer ID:", achTransferId);
-        const increaseData = await fetchACHTransfer(achTransferId);
-        logDebug(
-          "ACH Transfer ID:",
-          increaseData.id,
-          ", Amount:",
-          increaseData.amount,
-          ", Transaction ID:",
-          increaseData.transaction_id
+  const paidOrders = await Promise.all(
+    kept.map(({ order, keptReason }, index) =>
+      context.increaseLimit(async () => {
+        log(
+          `Processing payment order ${index + 1}/${kept.length} of payroll run ${payrollRunId}`
         );
+        try {
+          return await processPaymentOrder(
+            payrollRunId,
+            order,
+            keptReason,
+            accountsByWorker,
+            context
+          );
+        } catch (error) {
+          const entityId = extractACHTransferId(order) || order.id;
+          logError(`Error processing payment order ${order.id}:`, error);
+          context.failures.push({ entityId, error: describeError(error) });
+          return null;
+        }
+      })
+    )
+  );
 
-        allRecords.push({
-          payroll_run_id: payrollRunId,
-          direction: order.direction,
-          effective_date: order.effective_date,
-          amount: order.amount,
-          transaction_id: increaseData.transaction_id,
-        });
-        log("Added record with transaction ID:", increaseData.transaction_id);
-      } else {
-        log("No ACH Transfer ID found for this payment order, skipping...");
-      }
-    }
+  return paidOrders.filter((paidOrder): paidOrder is PaidOrder => !!paidOrder);
+}
+
+async function processPaymentOrder(
+  payrollRunId: string,
+  order: ModernTreasuryPaymentOrder,
+  keptReason: string,
+  accountsByWorker: Map<string, WorkerBankAccount[]>,
+  context: RunContext
+): Promise<PaidOrder | null> {
+  const redaction = context.redaction;
+  logDebug(
+    "Payment Order ID:",
+    order.id,
+    ", Amount:",
+    order.amount,
+    ", Direction:",
+    order.direction
+  );
+
+  const achTransferId = extractACHTransferId(order);
+  log("Found ACH Transfer ID:", achTransferId);
+
+  if (!achTransferId) {
+    log("No ACH Transfer ID found for this payment order, skipping...");
+    return null;
   }
 
-  log(`Writing ${allRecords.length} records to CSV...`);
-
-  const csvWriter = createObjectCsvWriter({
-    path: "output/increase-transactions.csv",
-    header: [
-      { id: "payroll_run_id", title: "Payroll run ID" },
-      { id: "direction", title: "Direction" },
-      { id: "effective_date", title: "Transaction date" },
-      { id: "amount", title: "Amount" },
-      { id: "transaction_id", title: "Transaction ID" },
-    ],
-  });
-
-  await csvWriter.writeRecords(allRecords);
-  log("Data has been written to increase-transactions.csv");
+  log("Fetching Increase data for ACH Transfer ID:", achTransferId);
+  const increaseData = await fetchWithStore("achTransfer", achTransferId, () =>
+    fetchACHTransfer(achTransferId)
+  );
+  logDebug(
+    "ACH Transfer ID:",
+    increaseData.id,
+    ", Amount:",
+    increaseData.amount,
+    ", Transaction ID:",
+    increaseData.transaction_id
+  );
+
+  const transaction = await fetchWithStore(
+    "transaction",
+    increaseData.transaction_id,
+    () => fetchTransaction(increaseData.transaction_id)
+  );
+  const workerId = await resolveOrderWorkerId(
+    order,
+    context.counterpartyWorkerIds
+  );
+  const recipient = matchPaymentRecipient(
+    workerId,
+    accountsByWorker,
+    increaseData
+  );
+
+  log("Added record with transaction ID:", increaseData.transaction_id);
+  return {
+    record: {
+      payroll_run_id: payrollRunId,
+      direction: order.direction,
+      effective_date: order.effective_date,
+      amount: order.amount,
+      transaction_id: increaseData.transaction_id,
+      kept_reason: keptReason,
+      ach_transfer_id: increaseData.id,
+      ach_status: increaseData.status,
+      statement_descriptor: increaseData.statement_descriptor || "",
+      company_name: increaseData.company_name || "",
+      individual_name: increaseData.individual_name || "",
+      account_number:
+        redaction.profile === "full" ? "" : maskLast4(increaseData.account_number),
+      account_number_hmac: hashIdentifier(increaseData.account_number, redaction),
+      routing_number: increaseData.routing_number || "",
+      account_id: transaction.account_id,
+      transaction_created_at: transaction.created_at,
+      transaction_description: transaction.description || "",
+      route_type: transaction.route_type || "",
+      source_category: transaction.source?.category || "",
+      signed_amount: transaction.amount,
+      worker_id: recipient.workerId,
+      worker_name: recipient.workerName,
+      destination_routing_number: recipient.routingNumber,
+      destination_account_last4:
+        redaction.profile === "full" ? "" : recipient.accountLast4,
+      bank_account_match: recipient.bankAccountMatch,
+    },
+    payment: {
+      workerId: recipient.workerId,
+      workerName: recipient.workerName,
+      direction: order.direction,
+      amount: order.amount,
+      effectiveDate: order.effective_date,
+    },
+  };
 }
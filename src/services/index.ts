@@ -3,3 +3,21 @@ export { getIncreaseTransactions } from './increase-transactions';
 export { getEmployerBankInfo } from './employer-bank-info';
 export { getWorkerBankInfo } from './worker-bank-info';
 export { getWorkerInfo } from './worker-info';
+export { DEFAULT_CHURN_OPTIONS, getBankAccountTimeline } from './bank-account-timeline';
+export { getSharedBankAccounts } from './shared-bank-accounts';
+export { getAuthorizerIpAnalysis } from './authorizer-ips';
+export { buildCase } from './build-case';
+export { resolveEmployerIds } from './employer-resolution';
+export {
+  decryptFile,
+  getDecryptionKeys,
+  verifyEncryptedFiles,
+} from './encrypted-files';
+export {
+  createIntegrityManifest,
+  getManifestFileName,
+  IntegrityInputs,
+  verifyManifests,
+  writeManifest,
+} from './integrity-manifest';
+export { configureEntityStore } from './entity-store';
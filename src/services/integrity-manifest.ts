@@ -0,0 +1,352 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { log, logError, logWarn } from "../utils/logger";
+import { getQueriedSources, SourceSystem } from "../integrations/sources";
+import { ServiceResult } from "./types";
+
+export const CASE_MANIFEST_FILE = "manifest.json";
+const MANIFEST_SUFFIX = ".manifest.json";
+
+export interface IntegrityInputs {
+  employerIds?: string[];
+  payrollRunIds?: string[];
+  workerIds?: string[];
+}
+
+export interface IntegrityFile {
+  // Path relative to the folder holding the manifest
+  file: string;
+  sha256: string;
+  bytes: number;
+  modifiedAt: string;
+  // Datasets stored in the file, several for a workbook
+  datasets: Array<{ dataset: string; recordCount: number }>;
+}
+
+export interface IntegrityManifest {
+  command: string;
+  tool: {
+    name: string;
+    version: string;
+    // Commit the tool ran from, null outside a git checkout
+    gitCommit: string | null;
+  };
+  inputs: IntegrityInputs;
+  // Systems queried during the run, e.g. Modern Treasury or the Neo4j URI
+  sources: SourceSystem[];
+  startedAt: string;
+  finishedAt: string;
+  files: IntegrityFile[];
+  // HMAC-SHA256 of the rest of the manifest, when MANIFEST_HMAC_KEY is set
+  hmacSha256?: string;
+}
+
+// "unsigned" when MANIFEST_HMAC_KEY is set but the manifest has no HMAC,
+// "unchecked" for the opposite, "none" when neither is there
+export type ManifestSignature = "valid" | "invalid" | "unsigned" | "unchecked" | "none";
+
+export interface ManifestVerification {
+  manifestPath: string;
+  ok: string[];
+  modified: string[];
+  missing: string[];
+  // Files written again by a run whose manifest is newer, not checked here
+  superseded: string[];
+  signature: ManifestSignature;
+}
+
+/**
+ * Returns the folder holding package.json, searched upwards from this file
+ * so it works from src/, dist/ and compiled test builds alike
+ */
+function findRootDir(): string {
+  let dir = __dirname;
+  while (!fs.existsSync(path.join(dir, "package.json"))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      throw new Error("Could not find package.json");
+    }
+    dir = parent;
+  }
+  return dir;
+}
+
+/**
+ * Returns the tool name and version from package.json and the git commit,
+ * read from GIT_COMMIT when the checkout has no .git folder (e.g. a build)
+ */
+function getToolInfo(): IntegrityManifest["tool"] {
+  const rootDir = findRootDir();
+  const packageJson = JSON.parse(
+    fs.readFileSync(path.join(rootDir, "package.json"), "utf8")
+  );
+
+  let gitCommit: string | null = process.env.GIT_COMMIT || null;
+  if (!gitCommit) {
+    try {
+      gitCommit = execFileSync("git", ["rev-parse", "HEAD"], {
+        cwd: rootDir,
+        encoding: "utf8",
+        stdio: ["ignore", "pipe", "ignore"],
+      }).trim();
+    } catch (error) {
+      gitCommit = null;
+    }
+  }
+
+  return { name: packageJson.name, version: packageJson.version, gitCommit };
+}
+
+function hashFile(filePath: string): string {
+  return crypto.createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+/**
+ * Hashes every file written by the results, relative to the manifest folder
+ */
+function describeFiles(dir: string, results: ServiceResult[]): IntegrityFile[] {
+  const files: IntegrityFile[] = [];
+
+  for (const result of results) {
+    if (!result.outputPath) {
+      continue;
+    }
+    const file = path.relative(dir, result.outputPath).split(path.sep).join("/");
+    const dataset = { dataset: result.dataset, recordCount: result.recordCount };
+
+    const existing = files.find((entry) => entry.file === file);
+    if (existing) {
+      existing.datasets.push(dataset);
+      continue;
+    }
+
+    const stats = fs.statSync(result.outputPath);
+    files.push({
+      file,
+      sha256: hashFile(result.outputPath),
+      bytes: stats.size,
+      modifiedAt: stats.mtime.toISOString(),
+      datasets: [dataset],
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Builds the integrity manifest of a run once every file has been written
+ */
+export function createIntegrityManifest(params: {
+  command: string;
+  dir: string;
+  inputs: IntegrityInputs;
+  startedAt: string;
+  results: ServiceResult[];
+}): IntegrityManifest {
+  return {
+    command: params.command,
+    tool: getToolInfo(),
+    inputs: params.inputs,
+    sources: getQueriedSources(),
+    startedAt: params.startedAt,
+    finishedAt: new Date().toISOString(),
+    files: describeFiles(params.dir, params.results),
+  };
+}
+
+/**
+ * Returns the manifest file name of a command, e.g. run-all.manifest.json
+ */
+export function getManifestFileName(command: string): string {
+  return `${command}${MANIFEST_SUFFIX}`;
+}
+
+/**
+ * HMAC-SHA256 of a manifest without its hmacSha256 field. Key order is kept,
+ * so a manifest read back from its file gets the same HMAC.
+ */
+function computeManifestHmac(manifest: IntegrityManifest, key: string): string {
+  const { hmacSha256, ...unsigned } = manifest;
+  return crypto.createHmac("sha256", key).update(JSON.stringify(unsigned)).digest("hex");
+}
+
+/**
+ * Writes a manifest into dir and returns its path. The manifest is signed
+ * when MANIFEST_HMAC_KEY is set.
+ */
+export function writeManifest(
+  dir: string,
+  fileName: string,
+  manifest: IntegrityManifest
+): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const manifestPath = path.join(dir, fileName);
+  const key = process.env.MANIFEST_HMAC_KEY;
+  const signed = key ? { ...manifest, hmacSha256: computeManifestHmac(manifest, key) } : manifest;
+  fs.writeFileSync(manifestPath, JSON.stringify(signed, null, 2) + "\n");
+  log(`Manifest has been written to ${manifestPath}`);
+  return manifestPath;
+}
+
+function isManifestFile(fileName: string): boolean {
+  return fileName === CASE_MANIFEST_FILE || fileName.endsWith(MANIFEST_SUFFIX);
+}
+
+function readManifest(manifestPath: string): IntegrityManifest {
+  const manifest: IntegrityManifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  if (!Array.isArray(manifest.files)) {
+    throw new Error(`${manifestPath} has no file checksums`);
+  }
+  return manifest;
+}
+
+/**
+ * Checks the HMAC of a manifest against MANIFEST_HMAC_KEY
+ */
+function checkManifestSignature(manifest: IntegrityManifest): ManifestSignature {
+  const key = process.env.MANIFEST_HMAC_KEY;
+  if (!key) {
+    return manifest.hmacSha256 ? "unchecked" : "none";
+  }
+  if (!manifest.hmacSha256) {
+    return "unsigned";
+  }
+  const expected = Buffer.from(computeManifestHmac(manifest, key), "hex");
+  const actual = Buffer.from(manifest.hmacSha256, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+    ? "valid"
+    : "invalid";
+}
+
+/**
+ * Checks the files listed in a manifest against their recorded SHA-256,
+ * except the superseded ones, and its signature
+ */
+export function verifyManifest(
+  manifestPath: string,
+  superseded: Set<string> = new Set()
+): ManifestVerification {
+  const manifest = readManifest(manifestPath);
+  const dir = path.dirname(manifestPath);
+  const verification: ManifestVerification = {
+    manifestPath,
+    ok: [],
+    modified: [],
+    missing: [],
+    superseded: [],
+    signature: checkManifestSignature(manifest),
+  };
+
+  for (const entry of manifest.files) {
+    const filePath = path.join(dir, entry.file);
+    if (superseded.has(entry.file)) {
+      verification.superseded.push(entry.file);
+    } else if (!fs.existsSync(filePath)) {
+      verification.missing.push(entry.file);
+    } else if (hashFile(filePath) !== entry.sha256) {
+      verification.modified.push(entry.file);
+    } else {
+      verification.ok.push(entry.file);
+    }
+  }
+
+  return verification;
+}
+
+/**
+ * Maps each file listed by the manifests of a folder to the manifest of the
+ * latest run that wrote it
+ */
+function getLatestManifestByFile(manifestPaths: string[]): Map<string, string> {
+  const latest = new Map<string, { manifestPath: string; finishedAt: string }>();
+  for (const manifestPath of manifestPaths) {
+    const manifest = readManifest(manifestPath);
+    for (const entry of manifest.files) {
+      const current = latest.get(entry.file);
+      if (!current || current.finishedAt < manifest.finishedAt) {
+        latest.set(entry.file, { manifestPath, finishedAt: manifest.finishedAt });
+      }
+    }
+  }
+  const manifestByFile = new Map<string, string>();
+  latest.forEach(({ manifestPath }, file) => manifestByFile.set(file, manifestPath));
+  return manifestByFile;
+}
+
+/**
+ * Verifies every manifest in a folder, or a single manifest file. In a
+ * folder, a file listed by several manifests is only checked against the
+ * latest run that wrote it. Files of the folder that no manifest lists are
+ * reported as warnings. Returns true when every checked file is present and
+ * unchanged and, with MANIFEST_HMAC_KEY, every manifest is correctly signed.
+ */
+export function verifyManifests(target: string): boolean {
+  const isDir = fs.statSync(target).isDirectory();
+  const dir = isDir ? target : path.dirname(target);
+  const manifestPaths = isDir
+    ? fs
+        .readdirSync(dir)
+        .filter(isManifestFile)
+        .map((fileName) => path.join(dir, fileName))
+    : [target];
+
+  if (manifestPaths.length === 0) {
+    throw new Error(`No manifest found in ${target}`);
+  }
+
+  let allValid = true;
+  const listed = new Set<string>();
+  const latestManifestByFile = getLatestManifestByFile(manifestPaths);
+
+  for (const manifestPath of manifestPaths) {
+    const superseded = new Set<string>();
+    latestManifestByFile.forEach((latestPath, file) => {
+      if (latestPath !== manifestPath) {
+        superseded.add(file);
+      }
+    });
+    const verification = verifyManifest(manifestPath, superseded);
+    log(`Checking ${manifestPath}`);
+    if (verification.signature === "invalid" || verification.signature === "unsigned") {
+      logError(
+        verification.signature === "invalid"
+          ? "SIGNATURE does not match MANIFEST_HMAC_KEY"
+          : "SIGNATURE missing, the manifest was written without MANIFEST_HMAC_KEY"
+      );
+      allValid = false;
+    } else if (verification.signature === "unchecked") {
+      logWarn("SIGNATURE not checked, MANIFEST_HMAC_KEY is not set");
+    }
+    for (const file of verification.ok) {
+      listed.add(file);
+      log(`OK        ${file}`);
+    }
+    for (const file of verification.modified) {
+      listed.add(file);
+      logError(`MODIFIED  ${file}`);
+    }
+    for (const file of verification.missing) {
+      logError(`MISSING   ${file}`);
+    }
+    for (const file of verification.superseded) {
+      listed.add(file);
+      log(`SKIPPED   ${file} (written again by ${path.basename(latestManifestByFile.get(file) || "")})`);
+    }
+    if (verification.modified.length > 0 || verification.missing.length > 0) {
+      allValid = false;
+    }
+  }
+
+  if (isDir) {
+    for (const fileName of fs.readdirSync(dir)) {
+      const isFile = fs.statSync(path.join(dir, fileName)).isFile();
+      if (isFile && !isManifestFile(fileName) && !listed.has(fileName)) {
+        logWarn(`UNLISTED  ${fileName}`);
+      }
+    }
+  }
+
+  return allValid;
+}
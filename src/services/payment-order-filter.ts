@@ -0,0 +1,94 @@
+import { ModernTreasuryPaymentOrder } from "../integrations/modern-treasury";
+
+// Payment orders in these statuses never moved money, so they are dropped by default
+export const DEFAULT_EXCLUDED_STATUSES = ["cancelled", "failed"];
+
+// Tax transfers are not payroll payments to workers and do not belong in a UAR
+export const DEFAULT_EXCLUDED_PURPOSES = ["TAX_TRANSFERS"];
+
+export interface PaymentOrderFilterOptions {
+  // When set, only payment orders in one of these statuses are kept
+  includeStatuses?: string[];
+  // Replaces DEFAULT_EXCLUDED_PURPOSES when set
+  excludePurposes?: string[];
+}
+
+export interface KeptPaymentOrder {
+  order: ModernTreasuryPaymentOrder;
+  keptReason: string;
+}
+
+export interface ExcludedPaymentOrder {
+  order: ModernTreasuryPaymentOrder;
+  excludedReason: string;
+}
+
+export interface PaymentOrderFilterResult {
+  kept: KeptPaymentOrder[];
+  excluded: ExcludedPaymentOrder[];
+}
+
+/**
+ * Returns every purpose-like value Salsa may tag a payment order with,
+ * normalized to upper case
+ */
+function getPurposes(order: ModernTreasuryPaymentOrder): string[] {
+  return [order.metadata?.purpose, order.purpose, order.subtype]
+    .filter((value): value is string => !!value)
+    .map((value) => value.toUpperCase());
+}
+
+/**
+ * Splits payment orders into the ones to send to Increase and the ones to
+ * skip, recording why each order ended up on its side
+ */
+export function filterPaymentOrders(
+  paymentOrders: ModernTreasuryPaymentOrder[],
+  options: PaymentOrderFilterOptions = {}
+): PaymentOrderFilterResult {
+  const includeStatuses = options.includeStatuses?.map((status) =>
+    status.toLowerCase()
+  );
+  const excludePurposes = (
+    options.excludePurposes ?? DEFAULT_EXCLUDED_PURPOSES
+  ).map((purpose) => purpose.toUpperCase());
+
+  const result: PaymentOrderFilterResult = { kept: [], excluded: [] };
+
+  for (const order of paymentOrders) {
+    const status = (order.status || "").toLowerCase();
+    const reasons: string[] = [];
+
+    if (includeStatuses) {
+      if (!includeStatuses.includes(status)) {
+        result.excluded.push({ order, excludedReason: `status:${status}` });
+        continue;
+      }
+      reasons.push(`status ${status} is included`);
+    } else {
+      if (DEFAULT_EXCLUDED_STATUSES.includes(status)) {
+        result.excluded.push({ order, excludedReason: `status:${status}` });
+        continue;
+      }
+      reasons.push(`status ${status} is not excluded`);
+    }
+
+    const purposes = getPurposes(order);
+    const excludedPurpose = purposes.find((purpose) =>
+      excludePurposes.includes(purpose)
+    );
+    if (excludedPurpose) {
+      result.excluded.push({ order, excludedReason: `purpose:${excludedPurpose}` });
+      continue;
+    }
+    reasons.push(
+      purposes.length > 0
+        ? `purpose ${purposes.join("/")} is not excluded`
+        : "no purpose set"
+    );
+
+    result.kept.push({ order, keptReason: reasons.join("; ") });
+  }
+
+  return result;
+}
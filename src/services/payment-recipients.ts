@@ -0,0 +1,217 @@
+import {
+  fetchCounterparty,
+  ModernTreasuryPaymentOrder,
+} from "../integrations/modern-treasury";
+import { IncreaseACHTransfer } from "../integrations/increase";
+import { fetchPayrollRunEmployerId } from "../integrations/salsa-graphql";
+import { WorkerBankAccount } from "../integrations/salsa-neo4j";
+import { describeError, log, logDebug, logWarn } from "../utils/logger";
+import { fetchEmployerWorkerBankAccounts, fetchWithStore } from "./entity-store";
+
+// How the destination bank account of a payment was found
+export type BankAccountMatch =
+  | "matched" // The Increase destination account is one of the worker's accounts
+  | "active-account" // No exact match, the worker's active account is reported
+  | "unmatched" // The worker has no known bank account
+  | "no-worker"; // The payment order could not be tied to a worker
+
+export interface PaymentRecipient {
+  workerId: string;
+  workerName: string;
+  routingNumber: string;
+  accountLast4: string;
+  bankAccountMatch: BankAccountMatch;
+}
+
+export interface WorkerPayment {
+  workerId: string;
+  workerName: string;
+  direction: string;
+  amount: number;
+  effectiveDate: string;
+}
+
+export interface WorkerPaymentSummary {
+  workerId: string;
+  workerName: string;
+  totalPaid: number;
+  paymentCount: number;
+  firstEffectiveDate: string;
+  lastEffectiveDate: string;
+}
+
+async function fetchCounterpartyWorkerId(
+  counterpartyId: string
+): Promise<string | null> {
+  try {
+    const counterparty = await fetchWithStore("counterparty", counterpartyId, () =>
+      fetchCounterparty(counterpartyId)
+    );
+    return counterparty.metadata?.workerId || null;
+  } catch (error) {
+    logWarn(
+      `Could not fetch counterparty ${counterpartyId}: ${describeError(error)}`
+    );
+    return null;
+  }
+}
+
+/**
+ * Returns the Salsa worker ID a payment order pays, read from the order
+ * metadata or, failing that, from the metadata of its Modern Treasury
+ * counterparty. Counterparty lookups are cached across orders, including
+ * the ones still in flight.
+ */
+export async function resolveOrderWorkerId(
+  order: ModernTreasuryPaymentOrder,
+  counterpartyWorkerIds: Map<string, Promise<string | null>>
+): Promise<string | null> {
+  if (order.metadata?.workerId) {
+    return order.metadata.workerId;
+  }
+  if (!order.counterparty_id) {
+    return null;
+  }
+
+  let workerId = counterpartyWorkerIds.get(order.counterparty_id);
+  if (!workerId) {
+    workerId = fetchCounterpartyWorkerId(order.counterparty_id);
+    counterpartyWorkerIds.set(order.counterparty_id, workerId);
+  }
+  return workerId;
+}
+
+/**
+ * Loads the bank accounts of every worker of the employers paid in a payroll
+ * run, grouped by worker ID
+ */
+export async function loadWorkerBankAccounts(
+  payrollRunId: string,
+  paymentOrders: ModernTreasuryPaymentOrder[]
+): Promise<Map<string, WorkerBankAccount[]>> {
+  const accountsByWorker = new Map<string, WorkerBankAccount[]>();
+
+  try {
+    const employerIds: string[] = [];
+    for (const order of paymentOrders) {
+      const employerId = order.metadata?.employerId;
+      if (employerId && !employerIds.includes(employerId)) {
+        employerIds.push(employerId);
+      }
+    }
+    if (employerIds.length === 0) {
+      const employerId = await fetchPayrollRunEmployerId(payrollRunId);
+      if (employerId) {
+        employerIds.push(employerId);
+      }
+    }
+    if (employerIds.length === 0) {
+      logWarn(`No employer found for payroll run ${payrollRunId}, worker bank accounts are not joined`);
+      return accountsByWorker;
+    }
+
+    const accounts = await fetchEmployerWorkerBankAccounts(employerIds);
+    for (const account of accounts) {
+      const workerAccounts = accountsByWorker.get(account.workerId) || [];
+      workerAccounts.push(account);
+      accountsByWorker.set(account.workerId, workerAccounts);
+    }
+    log(`Loaded bank accounts for ${accountsByWorker.size} workers of payroll run ${payrollRunId}`);
+  } catch (error) {
+    logWarn(
+      `Could not load worker bank accounts for payroll run ${payrollRunId}: ${describeError(error)}`
+    );
+  }
+
+  return accountsByWorker;
+}
+
+/**
+ * Ties a payment to the worker's bank account that received it, preferring
+ * the account Increase actually sent the ACH transfer to
+ */
+export function matchPaymentRecipient(
+  workerId: string | null,
+  accountsByWorker: Map<string, WorkerBankAccount[]>,
+  achTransfer: IncreaseACHTransfer
+): PaymentRecipient {
+  if (!workerId) {
+    return {
+      workerId: "",
+      workerName: achTransfer.individual_name || "",
+      routingNumber: achTransfer.routing_number || "",
+      accountLast4: (achTransfer.account_number || "").slice(-4),
+      bankAccountMatch: "no-worker",
+    };
+  }
+
+  const accounts = accountsByWorker.get(workerId) || [];
+  const matched = accounts.find(
+    (account) =>
+      account.accountNumber === achTransfer.account_number &&
+      account.routingNumber === achTransfer.routing_number
+  );
+  const account = matched || accounts.find((account) => !account.isDeleted);
+  logDebug(
+    `Worker ${workerId} has ${accounts.length} bank accounts, destination ${matched ? "matched" : "not matched"}`
+  );
+
+  if (!account) {
+    return {
+      workerId,
+      workerName: achTransfer.individual_name || "",
+      routingNumber: achTransfer.routing_number || "",
+      accountLast4: (achTransfer.account_number || "").slice(-4),
+      bankAccountMatch: "unmatched",
+    };
+  }
+
+  return {
+    workerId,
+    workerName: account.partyName || achTransfer.individual_name || "",
+    routingNumber: account.routingNumber || "",
+    accountLast4: (account.accountNumber || "").slice(-4),
+    bankAccountMatch: matched ? "matched" : "active-account",
+  };
+}
+
+/**
+ * Rolls up the credit payments made to each worker, ordered by worker ID
+ */
+export function summarizeWorkerPayments(
+  payments: WorkerPayment[]
+): WorkerPaymentSummary[] {
+  const summaries = new Map<string, WorkerPaymentSummary>();
+
+  for (const payment of payments) {
+    if (!payment.workerId || payment.direction !== "credit") {
+      continue;
+    }
+
+    const summary = summaries.get(payment.workerId);
+    if (!summary) {
+      summaries.set(payment.workerId, {
+        workerId: payment.workerId,
+        workerName: payment.workerName,
+        totalPaid: payment.amount,
+        paymentCount: 1,
+        firstEffectiveDate: payment.effectiveDate,
+        lastEffectiveDate: payment.effectiveDate,
+      });
+      continue;
+    }
+
+    summary.totalPaid += payment.amount;
+    summary.paymentCount++;
+    if (payment.effectiveDate < summary.firstEffectiveDate) {
+      summary.firstEffectiveDate = payment.effectiveDate;
+    }
+    if (payment.effectiveDate > summary.lastEffectiveDate) {
+      summary.lastEffectiveDate = payment.effectiveDate;
+    }
+  }
+
+  return Array.from(summaries.values()).sort((a, b) =>
+    a.workerId.localeCompare(b.workerId)
+  );
+}
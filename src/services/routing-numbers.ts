@@ -0,0 +1,115 @@
+import { OutputColumn } from "../utils/output";
+import {
+  FedAchInstitution,
+  loadFedAchDirectory,
+  loadNeobankRoutingNumbers,
+} from "../integrations/fedach-directory";
+
+// ABA checksum weights of the nine digits
+const CHECKSUM_WEIGHTS = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+
+// Words that do not tell two bank names apart
+const GENERIC_BANK_WORDS = [
+  "THE", "OF", "AND", "BANK", "BANKS", "BANKING", "NA", "N", "A", "NATIONAL",
+  "ASSOCIATION", "ASSN", "FSB", "SSB", "CO", "COMPANY", "CORP", "CORPORATION",
+  "INC", "LLC", "TRUST", "SAVINGS", "FINANCIAL", "GROUP",
+];
+
+export interface RoutingNumberCheck {
+  routingNumber: string;
+  isValid: boolean;
+  // Undefined when the directory is not loaded or does not list it
+  institution?: FedAchInstitution;
+  // Null when there is no institution or bank name to compare, or either
+  // name has no distinctive word
+  bankNameMatches: boolean | null;
+  // Label from the neobank list, "" when not listed
+  neobankLabel: string;
+}
+
+/**
+ * Runs the ABA checksum: 3, 7 and 1 weighted digits sum to a multiple of 10
+ */
+export function isValidRoutingNumber(routingNumber: string | null | undefined): boolean {
+  const digits = (routingNumber || "").trim();
+  if (!/^\d{9}$/.test(digits)) {
+    return false;
+  }
+  const sum = CHECKSUM_WEIGHTS.reduce(
+    (total, weight, index) => total + weight * Number(digits[index]),
+    0
+  );
+  return sum % 10 === 0;
+}
+
+function toNameWords(name: string): string[] {
+  return name
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .split(/[^A-Z0-9]+/)
+    .filter((word) => word && !GENERIC_BANK_WORDS.includes(word));
+}
+
+/**
+ * Whether a free-text bank name can be the Fed institution name: every
+ * distinctive word of the shorter name is in the longer one, so "Chase"
+ * matches "JPMORGAN CHASE BANK, NA". Null when either name is only generic
+ * words (e.g. "The Bank"), which tells nothing about the institution.
+ */
+export function bankNamesMatch(bankName: string, institutionName: string): boolean | null {
+  const words = toNameWords(bankName);
+  const institutionWords = toNameWords(institutionName);
+  if (words.length === 0 || institutionWords.length === 0) {
+    return null;
+  }
+  const [shorter, longer] =
+    words.length <= institutionWords.length ? [words, institutionWords] : [institutionWords, words];
+  return shorter.every((word) => longer.includes(word));
+}
+
+/**
+ * Validates a routing number and resolves its institution from the FedACH
+ * directory
+ */
+export function checkRoutingNumber(
+  routingNumber: string | null | undefined,
+  bankName: string | null | undefined
+): RoutingNumberCheck {
+  const digits = (routingNumber || "").trim();
+  const institution = loadFedAchDirectory().get(digits);
+  return {
+    routingNumber: digits,
+    isValid: isValidRoutingNumber(digits),
+    institution,
+    bankNameMatches:
+      institution && bankName ? bankNamesMatch(bankName, institution.customerName) : null,
+    neobankLabel: loadNeobankRoutingNumbers().get(digits) || "",
+  };
+}
+
+export const ROUTING_NUMBER_COLUMNS: OutputColumn[] = [
+  { id: "routing_number_valid", title: "Routing number valid" },
+  { id: "fed_institution", title: "Fed institution" },
+  { id: "fed_city", title: "Fed city" },
+  { id: "fed_state", title: "Fed state" },
+  { id: "bank_name_mismatch", title: "Bank name mismatch" },
+  { id: "neobank", title: "Neobank / prepaid" },
+];
+
+/**
+ * Returns the ROUTING_NUMBER_COLUMNS of a bank account record
+ */
+export function mapRoutingNumberColumns(
+  routingNumber: string | null | undefined,
+  bankName: string | null | undefined
+) {
+  const check = checkRoutingNumber(routingNumber, bankName);
+  return {
+    routing_number_valid: check.isValid ? "Yes" : "No",
+    fed_institution: check.institution?.customerName || "",
+    fed_city: check.institution?.city || "",
+    fed_state: check.institution?.state || "",
+    bank_name_mismatch: check.bankNameMatches === false ? "Yes" : "",
+    neobank: check.neobankLabel,
+  };
+}
@@ -0,0 +1,151 @@
+import { log, logError } from "../utils/logger";
+import { writeDataset } from "../utils/output";
+import {
+  describeRedaction,
+  NO_REDACTION,
+  redactIdentifier,
+} from "../utils/redaction";
+import {
+  BankAccountHolder,
+  closeNeo4jConnection,
+  fetchSharedBankAccounts,
+  SharedBankAccount,
+} from "../integrations/salsa-neo4j";
+import { ServiceOptions, ServiceResult } from "./types";
+
+export type SharingReason =
+  | "MULTIPLE_WORKERS"
+  | "WORKERS_AT_DIFFERENT_EMPLOYERS"
+  | "WORKER_AND_EMPLOYER"
+  | "WORKER_AND_AUTHORIZER"
+  | "EMPLOYERS_SHARING";
+
+/**
+ * Lower-cases a person name and collapses its whitespace for comparison
+ */
+function normalizeName(name: string | null | undefined): string {
+  return (name || "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Works out why an account with several holders is suspicious. A worker or
+ * an employer holding the same account twice (e.g. re-added after a
+ * deletion) is not sharing it, so no reason is returned. Worker names are
+ * compared with the authorizers of the employer accounts in the cluster.
+ */
+export function classifySharedAccount(holders: BankAccountHolder[]): SharingReason[] {
+  const workerHolders = holders.filter((holder) => holder.holderType === "worker");
+  const workers = new Set(
+    workerHolders.map((holder) => `${holder.employerId}/${holder.workerId}`)
+  );
+  const workerEmployers = new Set(workerHolders.map((holder) => holder.employerId));
+  const employerHolders = holders.filter((holder) => holder.holderType === "employer");
+  const employers = new Set(employerHolders.map((holder) => holder.employerId));
+  const authorizerNames = new Set(
+    employerHolders.map((holder) => normalizeName(formatAuthorizer(holder))).filter(Boolean)
+  );
+  const reasons: SharingReason[] = [];
+
+  if (workers.size > 1) {
+    reasons.push("MULTIPLE_WORKERS");
+  }
+  if (workerEmployers.size > 1) {
+    reasons.push("WORKERS_AT_DIFFERENT_EMPLOYERS");
+  }
+  if (workerHolders.length > 0 && workerHolders.length < holders.length) {
+    reasons.push("WORKER_AND_EMPLOYER");
+  }
+  if (workerHolders.some((holder) => authorizerNames.has(normalizeName(holder.partyName)))) {
+    reasons.push("WORKER_AND_AUTHORIZER");
+  }
+  if (workerHolders.length === 0 && employers.size > 1) {
+    reasons.push("EMPLOYERS_SHARING");
+  }
+  return reasons;
+}
+
+function formatAuthorizer(holder: BankAccountHolder): string {
+  return `${holder.authorizerFirstName || ""} ${holder.authorizerLastName || ""}`.trim();
+}
+
+export async function getSharedBankAccounts(
+  employerIds: string[],
+  options: ServiceOptions = {}
+): Promise<ServiceResult> {
+  log("Looking for bank accounts shared across workers and employers...");
+  const redaction = options.redaction || NO_REDACTION;
+  let accounts: SharedBankAccount[];
+
+  try {
+    accounts = await fetchSharedBankAccounts(employerIds);
+  } catch (error) {
+    logError("Error fetching shared bank accounts:", error);
+    throw error;
+  } finally {
+    await closeNeo4jConnection();
+  }
+
+  const allRecords = [];
+  let clusterCount = 0;
+  for (const account of accounts) {
+    const reasons = classifySharedAccount(account.holders);
+    if (reasons.length === 0) {
+      continue;
+    }
+    clusterCount++;
+    for (const holder of account.holders) {
+      allRecords.push({
+        cluster: clusterCount,
+        reasons: reasons.join(", "),
+        routing_number: account.routingNumber,
+        account_number: redactIdentifier(account.accountNumber, redaction),
+        holder_type: holder.holderType,
+        employer_id: holder.employerId,
+        worker_id: holder.workerId || "",
+        bank_account_id: holder.bankAccountId || "",
+        bank_name: holder.bankName || "",
+        party_name: holder.partyName || "",
+        status: holder.isDeleted ? "deleted" : "active",
+        created_date: holder.createdDate || "",
+        authorizer_name: formatAuthorizer(holder),
+        authorizer_email: holder.authorizerEmail || "",
+      });
+    }
+  }
+  log(`Found ${clusterCount} shared bank accounts`);
+
+  log(`Writing ${allRecords.length} records...`);
+  log(`Applying redaction profile: ${describeRedaction(redaction)}`);
+  const outputPath = await writeDataset(
+    {
+      name: "shared-bank-accounts",
+      sheetName: "Shared bank accounts",
+      columns: [
+        { id: "cluster", title: "Cluster" },
+        { id: "reasons", title: "Reasons" },
+        { id: "routing_number", title: "Routing number" },
+        { id: "account_number", title: "Account number" },
+        { id: "holder_type", title: "Holder type" },
+        { id: "employer_id", title: "Employer ID" },
+        { id: "worker_id", title: "Worker ID" },
+        { id: "bank_account_id", title: "Employer bank account ID" },
+        { id: "bank_name", title: "Bank name" },
+        { id: "party_name", title: "Party name" },
+        { id: "status", title: "Status" },
+        { id: "created_date", title: "Created date" },
+        { id: "authorizer_name", title: "Authorizer name" },
+        { id: "authorizer_email", title: "Authorizer email" },
+      ],
+      records: allRecords,
+    },
+    options
+  );
+  log(`Data has been written to ${outputPath}`);
+
+  return {
+    dataset: "shared-bank-accounts",
+    outputPath,
+    recordCount: allRecords.length,
+    failures: [],
+  };
+}
@@ -0,0 +1,20 @@
+import { OutputOptions } from "../utils/output";
+import { RedactionOptions } from "../utils/redaction";
+
+export interface ServiceOptions extends OutputOptions {
+  // PII redaction applied to the exported records, defaults to none
+  redaction?: RedactionOptions;
+}
+
+export interface EntityFailure {
+  entityId: string;
+  error: string;
+}
+
+export interface ServiceResult {
+  dataset: string;
+  // Null when there was nothing to write
+  outputPath: string | null;
+  recordCount: number;
+  failures: EntityFailure[];
+}
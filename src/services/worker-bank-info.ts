@@ -1,17 +1,45 @@
-import { createObjectCsvWriter } from "csv-writer";
-import { log, logError } from "../utils/logger";
-import { fetchWorkerBankAccounts, closeNeo4jConnection } from "../integrations/salsa-neo4j";
+import { describeError, log, logError } from "../utils/logger";
+import { OutputColumn, writeDataset } from "../utils/output";
+import {
+  describeRedaction,
+  hashIdentifier,
+  NO_REDACTION,
+  redactIdentifier,
+} from "../utils/redaction";
+import { closeNeo4jConnection, WorkerBankAccount } from "../integrations/salsa-neo4j";
+import { fetchEmployerWorkerBankAccounts } from "./entity-store";
+import { mapRoutingNumberColumns, ROUTING_NUMBER_COLUMNS } from "./routing-numbers";
+import { EntityFailure, ServiceOptions, ServiceResult } from "./types";
 
-export async function getWorkerBankInfo(employerIds: string[]): Promise<void> {
+export async function getWorkerBankInfo(
+  employerIds: string[],
+  options: ServiceOptions = {}
+): Promise<ServiceResult> {
   log("Starting data fetch process for Worker Bank Accounts...");
+  const redaction = options.redaction || NO_REDACTION;
+  
+  const failures: EntityFailure[] = [];
   
   try {
     log(`Fetching worker bank accounts for ${employerIds.length} employers...`);
-    const workerBankAccounts = await fetchWorkerBankAccounts(employerIds);
+    const workerBankAccounts: WorkerBankAccount[] = [];
+    for (const employerId of employerIds) {
+      try {
+        workerBankAccounts.push(...(await fetchEmployerWorkerBankAccounts([employerId])));
+      } catch (error) {
+        logError(`Error fetching worker bank accounts for employer ${employerId}:`, error);
+        failures.push({ entityId: employerId, error: describeError(error) });
+      }
+    }
     
     if (workerBankAccounts.length === 0) {
       log("No worker bank accounts found");
-      return;
+      return {
+        dataset: "worker-bank-info",
+        outputPath: null,
+        recordCount: 0,
+        failures,
+      };
     }
     
     log(`Processing ${workerBankAccounts.length} worker bank account records...`);
@@ -20,31 +48,50 @@ export async function getWorkerBankInfo(employerIds: string[]): Promise<void> {
       employer_id: account.employerId || "",
       worker_id: account.workerId || "",
       bank_name: account.bankName || "",
-      account_number: account.accountNumber || "",
+      account_number: redactIdentifier(account.accountNumber, redaction),
+      account_number_hmac: hashIdentifier(account.accountNumber, redaction),
       routing_number: account.routingNumber || "",
       party_name: account.partyName || "",
       is_deleted: account.isDeleted ? "Yes" : "No",
       created_date: account.createdDate || "",
+      ...mapRoutingNumberColumns(account.routingNumber, account.bankName),
     }));
     
-    log(`Writing ${allRecords.length} records to CSV...`);
-    
-    const csvWriter = createObjectCsvWriter({
-      path: "output/worker-bank-info.csv",
-      header: [
-        { id: "employer_id", title: "Employer id" },
-        { id: "worker_id", title: "Worker id" },
-        { id: "bank_name", title: "Bank name" },
-        { id: "account_number", title: "Account Number" },
-        { id: "routing_number", title: "Routing number" },
-        { id: "party_name", title: "Party name" },
-        { id: "is_deleted", title: "Is Deleted" },
-        { id: "created_date", title: "Created Date" },
-      ]
-    });
+    log(`Writing ${allRecords.length} records...`);
     
-    await csvWriter.writeRecords(allRecords);
-    log("Data has been written to worker-bank-info.csv");
+    const columns: OutputColumn[] = [
+      { id: "employer_id", title: "Employer id" },
+      { id: "worker_id", title: "Worker id" },
+      { id: "bank_name", title: "Bank name" },
+      { id: "account_number", title: "Account Number" },
+      { id: "routing_number", title: "Routing number" },
+      { id: "party_name", title: "Party name" },
+      { id: "is_deleted", title: "Is Deleted" },
+      { id: "created_date", title: "Created Date" },
+      ...ROUTING_NUMBER_COLUMNS,
+    ];
+    if (redaction.hmacKey) {
+      columns.push({ id: "account_number_hmac", title: "Account number HMAC" });
+    }
+
+    log(`Applying redaction profile: ${describeRedaction(redaction)}`);
+    const outputPath = await writeDataset(
+      {
+        name: "worker-bank-info",
+        sheetName: "Worker bank accounts",
+        columns,
+        records: allRecords,
+      },
+      options
+    );
+    log(`Data has been written to ${outputPath}`);
+
+    return {
+      dataset: "worker-bank-info",
+      outputPath,
+      recordCount: allRecords.length,
+      failures,
+    };
   } catch (error) {
     logError("Error processing worker bank accounts:", error);
     throw error;
@@ -52,4 +99,4 @@ export async function getWorkerBankInfo(employerIds: string[]): Promise<void> {
     // Close Neo4j connection when done
     await closeNeo4jConnection();
   }
-} 
\ No newline at end of file
+}
@@ -1,82 +1,223 @@
-import { createObjectCsvWriter } from "csv-writer";
-import { log, logError } from "../utils/logger";
-import { fetchWorkerById, fetchWorkersByEmployerId } from "../integrations/salsa-graphql";
+import { describeError, log, logError } from "../utils/logger";
+import { openDataset, OutputColumn } from "../utils/output";
+import {
+  describeRedaction,
+  hashIdentifier,
+  NO_REDACTION,
+  redactDateOfBirth,
+  redactIdentifier,
+  RedactionOptions,
+} from "../utils/redaction";
+import {
+  fetchWorkersByEmployerId,
+  fetchWorkersByIds,
+  WorkerFilters,
+  WorkerInfo,
+} from "../integrations/salsa-graphql";
+import { fetchBatchWithStore, fetchPagesWithStore } from "./entity-store";
+import { EntityFailure, ServiceOptions, ServiceResult } from "./types";
 
+export interface WorkerInfoOptions extends ServiceOptions {
+  // Filters applied when listing the workers of employers
+  filters?: WorkerFilters;
+}
+
+export interface WorkerInfoResult extends ServiceResult {
+  // Employment and recent pay of the same workers
+  employment: ServiceResult;
+}
+
+const EMPLOYMENT_COLUMNS: OutputColumn[] = [
+  { id: "employer_id", title: "Employer ID" },
+  { id: "worker_id", title: "Worker ID" },
+  { id: "employment_status", title: "Employment status" },
+  { id: "hire_date", title: "Hire date" },
+  { id: "termination_date", title: "Termination date" },
+  { id: "job_title", title: "Job title" },
+  { id: "pay_rate", title: "Pay rate" },
+  { id: "pay_rate_currency", title: "Pay rate currency" },
+  { id: "pay_rate_period", title: "Pay rate period" },
+  { id: "recent_payment_count", title: "Recent payment count" },
+  { id: "recent_gross_pay", title: "Recent gross pay" },
+  { id: "recent_net_pay", title: "Recent net pay" },
+  { id: "first_pay_date", title: "First pay date" },
+  { id: "last_pay_date", title: "Last pay date" },
+];
+
+/**
+ * Writes the personal information and employment of workers. Listed workers
+ * are written page by page, so only one page is held in memory at a time.
+ */
 export async function getWorkerInfo(
   ids: string[],
-  idType: "worker" | "employer" = "employer"
-): Promise<void> {
+  idType: "worker" | "employer" = "employer",
+  options: WorkerInfoOptions = {}
+): Promise<WorkerInfoResult> {
   log(`Starting data fetch process for Worker Information by ${idType} ID...`);
-  const allRecords = [];
+  const failures: EntityFailure[] = [];
+  const redaction = options.redaction || NO_REDACTION;
+
+  const columns: OutputColumn[] = [
+    { id: "employer_id", title: "Employer ID" },
+    { id: "worker_id", title: "Worker ID" },
+    { id: "first_name", title: "First Name" },
+    { id: "last_name", title: "Last Name" },
+    { id: "date_of_birth", title: "Date of Birth" },
+    { id: "address_line1", title: "Address Line 1" },
+    { id: "address_line2", title: "Address Line 2" },
+    { id: "city", title: "City" },
+    { id: "state", title: "State" },
+    { id: "postal_code", title: "Postal Code" },
+    { id: "ssn", title: "SSN" },
+  ];
+  if (redaction.hmacKey) {
+    columns.push({ id: "ssn_hmac", title: "SSN HMAC" });
+  }
+
+  log(`Applying redaction profile: ${describeRedaction(redaction)}`);
+  const personalInfo = openDataset(
+    { name: "worker-personal-info", sheetName: "Workers", columns },
+    options
+  );
+  const employment = openDataset(
+    { name: "worker-employment", sheetName: "Worker employment", columns: EMPLOYMENT_COLUMNS },
+    options
+  );
+  let recordCount = 0;
+
+  const writeWorkers = async (workers: WorkerInfo[]) => {
+    await personalInfo.append(workers.map((worker) => mapWorkerToRecord(worker, redaction)));
+    await employment.append(workers.map(mapEmploymentToRecord));
+    for (const worker of workers) {
+      log("Added record with worker ID:", worker.workerId);
+    }
+    recordCount += workers.length;
+  };
 
   try {
     if (idType === "worker") {
-      // Process individual worker IDs
+      // Resolve the worker IDs in batched queries
+      log(`Fetching worker data from Salsa API for ${ids.length} worker IDs ...`);
+      const errors = new Map<string, string>();
+      const workers = await fetchBatchWithStore("worker", ids, async (missingIds) => {
+        const result = await fetchWorkersByIds(missingIds);
+        result.errors.forEach((message, workerId) => errors.set(workerId, message));
+        return result.workers;
+      });
+
+      const found: WorkerInfo[] = [];
       for (const workerId of ids) {
-        log(`Fetching worker data from Salsa API for worker ID: ${workerId} ...`);
-        try {
-          const workerInfo = await fetchWorkerById(workerId);
-          allRecords.push(mapWorkerToRecord(workerInfo));
-          log("Added record with worker ID:", workerInfo.workerId);
-        } catch (error) {
+        const workerInfo = workers.get(workerId);
+        if (!workerInfo) {
+          const error = errors.get(workerId) || `Worker not found with ID: ${workerId}`;
           logError(`Error fetching worker information for ${workerId}:`, error);
+          failures.push({ entityId: workerId, error });
+          continue;
         }
+        found.push(workerInfo);
       }
+      await writeWorkers(found);
     } else {
-      // Process employer IDs and fetch all workers for each employer
+      // Process employer IDs and page through the workers of each employer
+      const filters = options.filters || {};
       for (const employerId of ids) {
         log(`Fetching workers data from Salsa API for employer ID: ${employerId} ...`);
+        const countBefore = recordCount;
         try {
-          const workers = await fetchWorkersByEmployerId(employerId);
-          for (const worker of workers) {
-            allRecords.push(mapWorkerToRecord(worker));
-            log("Added record with worker ID:", worker.workerId);
-          }
+          await fetchPagesWithStore<WorkerInfo>(
+            "worker",
+            getWorkerScopeId(employerId, filters),
+            (onPage) => fetchWorkersByEmployerId(employerId, filters, onPage),
+            (worker) => worker.workerId,
+            writeWorkers
+          );
         } catch (error) {
-          logError(`Error fetching workers for employer ${employerId}:`, error);
+          logError(
+            `Error fetching workers for employer ${employerId} after ${recordCount - countBefore} workers:`,
+            error
+          );
+          failures.push({ entityId: employerId, error: describeError(error) });
         }
       }
     }
-
-    log(`Writing ${allRecords.length} records to CSV...`);
-
-    const csvWriter = createObjectCsvWriter({
-      path: "output/worker-personal-info.csv",
-      header: [
-        { id: "employer_id", title: "Employer ID" },
-        { id: "worker_id", title: "Worker ID" },
-        { id: "first_name", title: "First Name" },
-        { id: "last_name", title: "Last Name" },
-        { id: "date_of_birth", title: "Date of Birth" },
-        { id: "address_line1", title: "Address Line 1" },
-        { id: "address_line2", title: "Address Line 2" },
-        { id: "city", title: "City" },
-        { id: "state", title: "State" },
-        { id: "postal_code", title: "Postal Code" },
-        { id: "ssn", title: "SSN" },
-      ],
-    });
-
-    await csvWriter.writeRecords(allRecords);
-    log("Data has been written to worker-personal-info.csv");
   } catch (error) {
     logError("Error in getWorkerInfo:", error);
+    // Closed anyway so the files hold the workers written so far
+    await personalInfo.close();
+    await employment.close();
     throw error;
   }
+
+  log(`Wrote ${recordCount} worker records`);
+  const outputPath = await personalInfo.close();
+  log(`Data has been written to ${outputPath}`);
+  const employmentPath = await employment.close();
+  log(`Data has been written to ${employmentPath}`);
+
+  return {
+    dataset: "worker-personal-info",
+    outputPath,
+    recordCount,
+    failures,
+    employment: {
+      dataset: "worker-employment",
+      outputPath: employmentPath,
+      recordCount,
+      // Failed workers are reported once, on worker-personal-info
+      failures: [],
+    },
+  };
 }
 
-function mapWorkerToRecord(worker: any) {
+/**
+ * Returns the store scope of a worker listing, the employer ID followed by
+ * the filters so filtered listings are never reused as the full list
+ */
+function getWorkerScopeId(employerId: string, filters: WorkerFilters): string {
+  const parts: string[] = [];
+  if (filters.status) {
+    parts.push(`status=${filters.status}`);
+  }
+  if (filters.hiredAfter) {
+    parts.push(`hiredAfter=${filters.hiredAfter}`);
+  }
+  return parts.length > 0 ? `${employerId}?${parts.join("&")}` : employerId;
+}
+
+function mapWorkerToRecord(worker: WorkerInfo, redaction: RedactionOptions) {
   return {
     employer_id: worker.employerId,
     worker_id: worker.workerId,
     first_name: worker.firstName,
     last_name: worker.lastName,
-    date_of_birth: worker.dateOfBirth,
+    date_of_birth: redactDateOfBirth(worker.dateOfBirth, redaction),
     address_line1: worker.addressLine1 || "",
     address_line2: worker.addressLine2 || "",
     city: worker.city || "",
     state: worker.state || "",
     postal_code: worker.postalCode || "",
-    ssn: worker.ssn || ""
+    ssn: redactIdentifier(worker.ssn, redaction),
+    ssn_hmac: hashIdentifier(worker.ssn, redaction),
   };
-} 
\ No newline at end of file
+} 
+
+// Workers stored before employment was fetched have none of these fields
+function mapEmploymentToRecord(worker: WorkerInfo) {
+  const payments = worker.recentPayments;
+  return {
+    employer_id: worker.employerId,
+    worker_id: worker.workerId,
+    employment_status: worker.employmentStatus || "",
+    hire_date: worker.hireDate || "",
+    termination_date: worker.terminationDate || "",
+    job_title: worker.jobTitle || "",
+    pay_rate: worker.payRate || "",
+    pay_rate_currency: worker.payRateCurrency || "",
+    pay_rate_period: worker.payRatePeriod || "",
+    recent_payment_count: payments ? payments.count : "",
+    recent_gross_pay: payments ? payments.grossPay : "",
+    recent_net_pay: payments ? payments.netPay : "",
+    first_pay_date: payments ? payments.firstPayDate : "",
+    last_pay_date: payments ? payments.lastPayDate : "",
+  };
+}
@@ -0,0 +1,50 @@
+export type ConcurrencyLimit = <T>(task: () => Promise<T>) => Promise<T>;
+
+export const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Returns a function that runs tasks with at most `limit` of them in flight,
+ * queueing the rest in call order
+ */
+export function createConcurrencyLimit(limit: number): ConcurrencyLimit {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Concurrency must be a positive integer, got: ${limit}`);
+  }
+
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = () => {
+    active--;
+    const start = queue.shift();
+    if (start) {
+      start();
+    }
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const start = () => {
+        active++;
+        task().then(resolve, reject).then(next, next);
+      };
+      if (active < limit) {
+        start();
+      } else {
+        queue.push(start);
+      }
+    });
+}
+
+/**
+ * Maps items through an async function with bounded concurrency. Results keep
+ * the order of the input regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const run = createConcurrencyLimit(limit);
+  return Promise.all(items.map((item, index) => run(() => mapper(item, index))));
+}
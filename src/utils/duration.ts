@@ -0,0 +1,18 @@
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as "90s", "30m", "12h" or "7d" into milliseconds.
+ * A bare number is read as seconds. Returns null when the value is invalid.
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * DURATION_UNITS_MS[match[2] || "s"];
+}
@@ -0,0 +1,231 @@
+import * as crypto from "crypto";
+
+// Every encrypted export starts with this line so it can be recognized
+const MAGIC = Buffer.from("UARENC1\n", "utf8");
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+// Upper bounds for scrypt parameters read from a file header, which is only
+// authenticated after the key is derived
+const MAX_SCRYPT_PARAMS = { N: 131072, r: 16, p: 4 };
+
+export const ENCRYPTED_FILE_EXTENSION = ".enc";
+
+export type EncryptionOptions =
+  | { passphrase: string }
+  // PEM encoded RSA public key of the person the file is for
+  | { recipientPublicKey: string };
+
+export interface DecryptionKeys {
+  passphrase?: string;
+  // PEM encoded RSA private key matching the recipient public key
+  identityPrivateKey?: string;
+}
+
+type KeyWrap =
+  | {
+      type: "scrypt";
+      salt: string;
+      N: number;
+      r: number;
+      p: number;
+    }
+  | {
+      type: "rsa-oaep-sha256";
+      wrappedKey: string;
+    };
+
+interface EncryptedFileHeader {
+  version: 1;
+  algorithm: typeof ALGORITHM;
+  iv: string;
+  keyWrap: KeyWrap;
+}
+
+function deriveKey(
+  passphrase: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number }
+): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH, {
+    ...params,
+    maxmem: 256 * params.N * params.r,
+  });
+}
+
+function wrapKey(options: EncryptionOptions): { key: Buffer; keyWrap: KeyWrap } {
+  if ("passphrase" in options) {
+    const salt = crypto.randomBytes(16);
+    return {
+      key: deriveKey(options.passphrase, salt, SCRYPT_PARAMS),
+      keyWrap: { type: "scrypt", salt: salt.toString("base64"), ...SCRYPT_PARAMS },
+    };
+  }
+
+  const key = crypto.randomBytes(KEY_LENGTH);
+  const wrappedKey = crypto.publicEncrypt(
+    {
+      key: options.recipientPublicKey,
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: "sha256",
+    },
+    key
+  );
+  return {
+    key,
+    keyWrap: { type: "rsa-oaep-sha256", wrappedKey: wrappedKey.toString("base64") },
+  };
+}
+
+/**
+ * Rejects scrypt parameters that are malformed or costlier than the caps,
+ * so a crafted header cannot make decryption burn CPU and memory
+ */
+function checkScryptParams(params: { N: number; r: number; p: number }): void {
+  const { N, r, p } = params;
+  const valid =
+    Number.isInteger(N) && N > 1 && (N & (N - 1)) === 0 && N <= MAX_SCRYPT_PARAMS.N &&
+    Number.isInteger(r) && r >= 1 && r <= MAX_SCRYPT_PARAMS.r &&
+    Number.isInteger(p) && p >= 1 && p <= MAX_SCRYPT_PARAMS.p;
+  if (!valid) {
+    throw new Error(`Unsupported scrypt parameters in encrypted file: N=${N}, r=${r}, p=${p}`);
+  }
+}
+
+function unwrapKey(keyWrap: KeyWrap, keys: DecryptionKeys): Buffer {
+  if (keyWrap.type === "scrypt") {
+    if (!keys.passphrase) {
+      throw new Error("File is encrypted with a passphrase, but no passphrase was provided");
+    }
+    checkScryptParams(keyWrap);
+    return deriveKey(keys.passphrase, Buffer.from(keyWrap.salt, "base64"), {
+      N: keyWrap.N,
+      r: keyWrap.r,
+      p: keyWrap.p,
+    });
+  }
+
+  if (!keys.identityPrivateKey) {
+    throw new Error("File is encrypted for a recipient key, but no identity key was provided");
+  }
+  return crypto.privateDecrypt(
+    {
+      key: keys.identityPrivateKey,
+      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+      oaepHash: "sha256",
+    },
+    Buffer.from(keyWrap.wrappedKey, "base64")
+  );
+}
+
+export interface EncryptionStream {
+  // Magic and header, written before any ciphertext
+  prefix: Buffer;
+  update(plaintext: Buffer): Buffer;
+  // Remaining ciphertext followed by the GCM tag
+  final(): Buffer;
+}
+
+/**
+ * Encrypts a file body chunk by chunk, in the layout of encryptBuffer
+ */
+export function createEncryptionStream(options: EncryptionOptions): EncryptionStream {
+  const { key, keyWrap } = wrapKey(options);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const header: EncryptedFileHeader = {
+    version: 1,
+    algorithm: ALGORITHM,
+    iv: iv.toString("base64"),
+    keyWrap,
+  };
+
+  const headerBytes = Buffer.from(JSON.stringify(header), "utf8");
+  const headerLength = Buffer.alloc(4);
+  headerLength.writeUInt32BE(headerBytes.length, 0);
+  const prefix = Buffer.concat([MAGIC, headerLength, headerBytes]);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(prefix);
+
+  return {
+    prefix,
+    update: (plaintext) => cipher.update(plaintext),
+    final: () => Buffer.concat([cipher.final(), cipher.getAuthTag()]),
+  };
+}
+
+/**
+ * Encrypts a file body with AES-256-GCM. The layout is MAGIC, the header
+ * length (uint32 BE), the JSON header, the ciphertext and the GCM tag. The
+ * magic and header are authenticated as additional data.
+ */
+export function encryptBuffer(plaintext: Buffer, options: EncryptionOptions): Buffer {
+  const stream = createEncryptionStream(options);
+  return Buffer.concat([stream.prefix, stream.update(plaintext), stream.final()]);
+}
+
+/**
+ * Decrypts a buffer produced by encryptBuffer. Throws if the file was
+ * tampered with or the key material does not match.
+ */
+export function decryptBuffer(data: Buffer, keys: DecryptionKeys): Buffer {
+  if (!isEncrypted(data)) {
+    throw new Error("Not an encrypted UAR export");
+  }
+
+  const headerLength = data.readUInt32BE(MAGIC.length);
+  const headerStart = MAGIC.length + 4;
+  const bodyStart = headerStart + headerLength;
+  if (data.length < bodyStart + TAG_LENGTH) {
+    throw new Error("Encrypted file is truncated");
+  }
+
+  const header: EncryptedFileHeader = JSON.parse(
+    data.subarray(headerStart, bodyStart).toString("utf8")
+  );
+  if (header.version !== 1 || header.algorithm !== ALGORITHM) {
+    throw new Error(`Unsupported encrypted file format: ${header.algorithm} v${header.version}`);
+  }
+
+  const key = unwrapKey(header.keyWrap, keys);
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    key,
+    Buffer.from(header.iv, "base64")
+  );
+  decipher.setAAD(data.subarray(0, bodyStart));
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+
+  return Buffer.concat([
+    decipher.update(data.subarray(bodyStart, data.length - TAG_LENGTH)),
+    decipher.final(),
+  ]);
+}
+
+export function isEncrypted(data: Buffer): boolean {
+  return (
+    data.length >= MAGIC.length + 4 &&
+    data.subarray(0, MAGIC.length).equals(MAGIC)
+  );
+}
+
+/**
+ * Reads the encryption settings from the environment: a passphrase in
+ * UAR_ENCRYPTION_PASSPHRASE, or the public key file passed as recipient
+ */
+export function getEncryptionOptions(
+  recipientPublicKey?: string
+): EncryptionOptions {
+  if (recipientPublicKey) {
+    return { recipientPublicKey };
+  }
+  const passphrase = process.env.UAR_ENCRYPTION_PASSPHRASE;
+  if (!passphrase) {
+    throw new Error(
+      "UAR_ENCRYPTION_PASSPHRASE environment variable or --recipient is required to encrypt outputs"
+    );
+  }
+  return { passphrase };
+}
@@ -0,0 +1,90 @@
+import * as fs from "fs";
+
+export type IdKind = "payrollRun" | "employer" | "worker";
+
+export const ID_PREFIXES: Record<IdKind, string> = {
+  payrollRun: "payrun_",
+  employer: "er_",
+  worker: "wrk_",
+};
+
+const ID_LABELS: Record<IdKind, string> = {
+  payrollRun: "payroll run",
+  employer: "employer",
+  worker: "worker",
+};
+
+/**
+ * Returns the kind of an ID from its prefix, or null if it has none we know
+ */
+export function getIdKind(id: string): IdKind | null {
+  const kinds = Object.keys(ID_PREFIXES) as IdKind[];
+  return kinds.find((kind) => id.startsWith(ID_PREFIXES[kind])) || null;
+}
+
+/**
+ * Throws if any ID does not carry the prefix expected for its kind
+ */
+export function validateIds(ids: string[], kind: IdKind): string[] {
+  const invalid = ids.filter((id) => !id.startsWith(ID_PREFIXES[kind]));
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid ${ID_LABELS[kind]} ID(s), expected the "${ID_PREFIXES[kind]}" prefix: ${invalid.join(", ")}`
+    );
+  }
+  return ids;
+}
+
+/**
+ * Reads every known ID from a TXT or CSV file, e.g. an exported alert list.
+ * Cells are split on newlines, commas, semicolons and tabs; header cells and
+ * other columns are ignored because they do not carry an ID prefix.
+ */
+export function readIdsFile(filePath: string): Record<IdKind, string[]> {
+  const ids: Record<IdKind, string[]> = {
+    payrollRun: [],
+    employer: [],
+    worker: [],
+  };
+
+  const cells = fs
+    .readFileSync(filePath, "utf8")
+    .split(/[\r\n,;\t]+/)
+    .map((cell) => cell.trim().replace(/^"(.*)"$/, "$1").trim())
+    .filter((cell) => cell.length > 0);
+
+  for (const cell of cells) {
+    const kind = getIdKind(cell);
+    if (kind && !ids[kind].includes(cell)) {
+      ids[kind].push(cell);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Merges IDs given on the command line with the ones of the same kind read
+ * from an IDs file, validates them and fails if none are left
+ */
+export function collectIds(
+  kind: IdKind,
+  cliIds: string[],
+  idsFile?: string
+): string[] {
+  const ids = [...cliIds];
+  if (idsFile) {
+    for (const id of readIdsFile(idsFile)[kind]) {
+      if (!ids.includes(id)) {
+        ids.push(id);
+      }
+    }
+  }
+
+  if (ids.length === 0) {
+    throw new Error(
+      `No ${ID_LABELS[kind]} IDs provided: pass them as arguments or with --ids-file`
+    );
+  }
+  return validateIds(ids, kind);
+}
@@ -0,0 +1,153 @@
+import { isIP } from "net";
+
+export type IpClassification =
+  | "public"
+  | "private"
+  | "carrier-grade-nat"
+  | "loopback"
+  | "link-local"
+  | "multicast"
+  | "reserved"
+  | "invalid";
+
+export interface IpAddressInfo {
+  address: string;
+  // 0 when the address is not a valid IP
+  version: 0 | 4 | 6;
+  // 32 hex digits, IPv4 mapped into IPv6, so keys of both versions compare
+  // in address order; empty for invalid addresses
+  key: string;
+  classification: IpClassification;
+}
+
+// Special-purpose ranges (RFC 6890 and friends); anything else is public
+const SPECIAL_RANGES: Array<[string, IpClassification]> = [
+  ["0.0.0.0/8", "reserved"],
+  ["10.0.0.0/8", "private"],
+  ["100.64.0.0/10", "carrier-grade-nat"],
+  ["127.0.0.0/8", "loopback"],
+  ["169.254.0.0/16", "link-local"],
+  ["172.16.0.0/12", "private"],
+  ["192.0.0.0/24", "reserved"],
+  ["192.0.2.0/24", "reserved"],
+  ["192.168.0.0/16", "private"],
+  ["198.18.0.0/15", "reserved"],
+  ["198.51.100.0/24", "reserved"],
+  ["203.0.113.0/24", "reserved"],
+  ["224.0.0.0/4", "multicast"],
+  ["240.0.0.0/4", "reserved"],
+  ["::/128", "reserved"],
+  ["::1/128", "loopback"],
+  ["100::/64", "reserved"],
+  ["2001:db8::/32", "reserved"],
+  ["fc00::/7", "private"],
+  ["fe80::/10", "link-local"],
+  ["ff00::/8", "multicast"],
+];
+
+let specialRanges: Array<{ start: string; end: string; classification: IpClassification }> | null =
+  null;
+
+function parseIPv4(address: string): number[] {
+  return address.split(".").map((part) => parseInt(part, 10));
+}
+
+/**
+ * Returns the 16 bytes of an address, IPv4 as an IPv4-mapped IPv6 address
+ */
+function toBytes(address: string, version: 4 | 6): number[] {
+  if (version === 4) {
+    return [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff, ...parseIPv4(address)];
+  }
+
+  let head = address.replace(/%.*$/, "");
+  const tailBytes: number[] = [];
+  const dotted = /:(\d+\.\d+\.\d+\.\d+)$/.exec(head);
+  if (dotted) {
+    tailBytes.push(...parseIPv4(dotted[1]));
+    head = head.slice(0, dotted.index + 1) + "0:0";
+  }
+
+  const [left, right] = head.split("::");
+  const leftGroups = left ? left.split(":") : [];
+  const rightGroups = right ? right.split(":") : [];
+  const missing = 8 - leftGroups.length - rightGroups.length;
+  const groups = [
+    ...leftGroups,
+    ...(head.includes("::") ? new Array(missing).fill("0") : []),
+    ...rightGroups,
+  ];
+
+  const bytes: number[] = [];
+  for (const group of groups) {
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  }
+  if (tailBytes.length > 0) {
+    bytes.splice(12, 4, ...tailBytes);
+  }
+  return bytes;
+}
+
+function toKey(bytes: number[]): string {
+  return bytes.map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Returns the first and last key of a CIDR block
+ */
+export function getCidrRange(cidr: string): { start: string; end: string } {
+  const [network, prefixText] = cidr.split("/");
+  const version = isIP(network) as 4 | 6;
+  if (!version) {
+    throw new Error(`Invalid CIDR block: ${cidr}`);
+  }
+  // IPv4 prefixes count from the start of the mapped address
+  const prefix = parseInt(prefixText, 10) + (version === 4 ? 96 : 0);
+  const bytes = toBytes(network, version);
+  const start = bytes.map((byte, index) => {
+    const bits = Math.min(Math.max(prefix - index * 8, 0), 8);
+    return byte & ((0xff << (8 - bits)) & 0xff);
+  });
+  const end = start.map((byte, index) => {
+    const bits = Math.min(Math.max(prefix - index * 8, 0), 8);
+    return byte | (0xff >> bits);
+  });
+  return { start: toKey(start), end: toKey(end) };
+}
+
+/**
+ * Returns the comparable key of an address, or "" if it is not a valid IP
+ */
+export function toIpKey(address: string): string {
+  const trimmed = address.trim();
+  const version = isIP(trimmed);
+  return version ? toKey(toBytes(trimmed, version as 4 | 6)) : "";
+}
+
+/**
+ * Tells the IP version of an address and whether it is public, private or
+ * in a reserved range. IPv4-mapped IPv6 addresses are classified as IPv4.
+ */
+export function classifyIp(address: string): IpAddressInfo {
+  const trimmed = (address || "").trim();
+  const version = isIP(trimmed) as 0 | 4 | 6;
+  if (!version) {
+    return { address: trimmed, version, key: "", classification: "invalid" };
+  }
+
+  if (!specialRanges) {
+    specialRanges = SPECIAL_RANGES.map(([cidr, classification]) => ({
+      ...getCidrRange(cidr),
+      classification,
+    }));
+  }
+  const key = toKey(toBytes(trimmed, version));
+  const special = specialRanges.find((range) => key >= range.start && key <= range.end);
+  return {
+    address: trimmed,
+    version,
+    key,
+    classification: special ? special.classification : "public",
+  };
+}
@@ -12,9 +12,13 @@ function getTimestamp(): string {
 }
 
 function formatLog(level: string, ...args: any[]): string {
-  return `[${getTimestamp()}] [${level}] ${args.map(arg => 
-    typeof arg === 'object' ? JSON.stringify(arg, null, 2) : arg
-  ).join(' ')}`;
+  return `[${getTimestamp()}] [${level}] ${args.map(arg => {
+    // Errors have no enumerable properties, JSON.stringify would print {}
+    if (arg instanceof Error) {
+      return arg.message;
+    }
+    return typeof arg === 'object' ? JSON.stringify(arg, null, 2) : arg;
+  }).join(' ')}`;
 }
 
 export function log(...args: any[]) {
@@ -38,7 +42,19 @@ export function logTrace(...args: any[]) {
   }
 }
 
+export function logWarn(...args: any[]) {
+  // Always log warnings regardless of mode
+  console.warn(formatLog('WARN', ...args));
+}
+
 export function logError(...args: any[]) {
   // Always log errors regardless of mode
   console.error(formatLog('ERROR', ...args));
 }
+
+/**
+ * Formats an unknown error as a single line, e.g. for a run summary
+ */
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
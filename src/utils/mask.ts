@@ -0,0 +1,12 @@
+/**
+ * Masks every character but the last four, e.g. "123456789" -> "*****6789"
+ */
+export function maskLast4(value: string | null | undefined): string {
+  if (!value) {
+    return "";
+  }
+  if (value.length <= 4) {
+    return value;
+  }
+  return "*".repeat(value.length - 4) + value.slice(-4);
+}
@@ -0,0 +1,294 @@
+import * as fs from "fs";
+import * as path from "path";
+import { createObjectCsvStringifier } from "csv-writer";
+import ExcelJS from "exceljs";
+import {
+  createEncryptionStream,
+  encryptBuffer,
+  ENCRYPTED_FILE_EXTENSION,
+  EncryptionOptions,
+} from "./encryption";
+
+export const DEFAULT_OUTPUT_DIR = "output";
+
+export const OUTPUT_FORMATS = ["csv", "json", "ndjson", "xlsx"] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface OutputOptions {
+  // Directory the dataset is written into, defaults to "output"
+  outputDir?: string;
+  // When set, files are encrypted in memory before they touch the disk
+  encryption?: EncryptionOptions;
+  // Writer shared by several datasets, defaults to one CSV file per dataset
+  writer?: OutputWriter;
+}
+
+export interface OutputColumn {
+  id: string;
+  title: string;
+}
+
+export interface OutputDataset {
+  // File name without extension, e.g. "employer-bank-info"
+  name: string;
+  // Sheet name in a workbook, at most 31 characters
+  sheetName: string;
+  columns: OutputColumn[];
+  records: object[];
+}
+
+// A dataset before its records, for datasets written page by page
+export type OutputDatasetHeader = Omit<OutputDataset, "records">;
+
+export interface DatasetStream {
+  // Adds records after the ones already written
+  append(records: object[]): Promise<void>;
+  // Completes the dataset and returns the path of the file holding it
+  close(): Promise<string>;
+}
+
+export interface OutputWriter {
+  format: OutputFormat;
+  // Writes or stages a dataset and returns the path of the file holding it
+  write(dataset: OutputDataset): Promise<string>;
+  // Starts a dataset whose records are appended as they are fetched
+  open(dataset: OutputDatasetHeader): DatasetStream;
+  // Flushes anything staged, e.g. the workbook
+  finish(): Promise<void>;
+}
+
+/**
+ * Returns the path of a file inside the output directory, creating the
+ * directory if it does not exist yet
+ */
+export function resolveOutputPath(
+  fileName: string,
+  outputDir: string = DEFAULT_OUTPUT_DIR
+): string {
+  fs.mkdirSync(outputDir, { recursive: true });
+  return path.join(outputDir, fileName);
+}
+
+/**
+ * Returns the path writeOutputFile will write a file to
+ */
+function getOutputFilePath(fileName: string, options: OutputOptions): string {
+  return resolveOutputPath(
+    options.encryption ? fileName + ENCRYPTED_FILE_EXTENSION : fileName,
+    options.outputDir
+  );
+}
+
+/**
+ * Writes a file into the output directory, encrypted when requested.
+ * Returns the path actually written, which ends in .enc when encrypted.
+ */
+export function writeOutputFile(
+  fileName: string,
+  contents: Buffer,
+  options: OutputOptions = {}
+): string {
+  const outputPath = getOutputFilePath(fileName, options);
+  fs.writeFileSync(
+    outputPath,
+    options.encryption ? encryptBuffer(contents, options.encryption) : contents
+  );
+  return outputPath;
+}
+
+/**
+ * Returns the records with only the dataset columns, in column order
+ */
+function pickColumns(
+  columns: OutputColumn[],
+  records: object[]
+): Array<Record<string, unknown>> {
+  return records.map((record) => {
+    const values = record as Record<string, unknown>;
+    const picked: Record<string, unknown> = {};
+    for (const column of columns) {
+      picked[column.id] = values[column.id] ?? "";
+    }
+    return picked;
+  });
+}
+
+/**
+ * Writes a whole dataset through a stream of the writer
+ */
+async function writeThroughStream(
+  writer: OutputWriter,
+  dataset: OutputDataset
+): Promise<string> {
+  const stream = writer.open(dataset);
+  await stream.append(dataset.records);
+  return stream.close();
+}
+
+/**
+ * Renders the parts of a dataset file: what comes before the records, the
+ * records of one append, and what closes the file
+ */
+function createRenderer(format: "csv" | "json" | "ndjson", columns: OutputColumn[]) {
+  switch (format) {
+    case "csv": {
+      const stringifier = createObjectCsvStringifier({ header: columns });
+      return {
+        start: () => stringifier.getHeaderString() || "",
+        // An empty page would still add a line break
+        records: (records: object[]) =>
+          records.length > 0 ? stringifier.stringifyRecords(records) : "",
+        end: () => "",
+      };
+    }
+    case "json": {
+      // Same text as JSON.stringify(records, null, 2), one record at a time
+      let count = 0;
+      return {
+        start: () => "[",
+        records: (records: object[]) =>
+          pickColumns(columns, records)
+            .map((record) => {
+              const separator = count++ > 0 ? ",\n  " : "\n  ";
+              return separator + JSON.stringify(record, null, 2).replace(/\n/g, "\n  ");
+            })
+            .join(""),
+        end: () => (count > 0 ? "\n]\n" : "]\n"),
+      };
+    }
+    case "ndjson":
+      return {
+        start: () => "",
+        records: (records: object[]) =>
+          pickColumns(columns, records)
+            .map((record) => JSON.stringify(record) + "\n")
+            .join(""),
+        end: () => "",
+      };
+  }
+}
+
+/**
+ * Writes each dataset to its own file, appending records as they come.
+ * Encrypted files are encrypted chunk by chunk on their way to the disk.
+ */
+function createFileWriter(
+  format: "csv" | "json" | "ndjson",
+  options: OutputOptions
+): OutputWriter {
+  const writer: OutputWriter = {
+    format,
+    write: (dataset) => writeThroughStream(writer, dataset),
+    open(dataset) {
+      const outputPath = getOutputFilePath(`${dataset.name}.${format}`, options);
+      const renderer = createRenderer(format, dataset.columns);
+      const encryption = options.encryption
+        ? createEncryptionStream(options.encryption)
+        : null;
+      const fd = fs.openSync(outputPath, "w");
+      const writeText = (text: string) => {
+        const bytes = Buffer.from(text, "utf8");
+        fs.writeSync(fd, encryption ? encryption.update(bytes) : bytes);
+      };
+
+      if (encryption) {
+        fs.writeSync(fd, encryption.prefix);
+      }
+      writeText(renderer.start());
+
+      return {
+        async append(records) {
+          writeText(renderer.records(records));
+        },
+        async close() {
+          writeText(renderer.end());
+          if (encryption) {
+            fs.writeSync(fd, encryption.final());
+          }
+          fs.closeSync(fd);
+          return outputPath;
+        },
+      };
+    },
+    async finish() {},
+  };
+  return writer;
+}
+
+/**
+ * Collects every dataset as a sheet of one workbook, written on finish
+ */
+function createWorkbookWriter(
+  workbookName: string,
+  options: OutputOptions
+): OutputWriter {
+  const workbook = new ExcelJS.Workbook();
+  const fileName = `${workbookName}.xlsx`;
+  const outputPath = getOutputFilePath(fileName, options);
+
+  const writer: OutputWriter = {
+    format: "xlsx",
+    write: (dataset) => writeThroughStream(writer, dataset),
+    open(dataset) {
+      const sheet = workbook.addWorksheet(dataset.sheetName.slice(0, 31));
+      sheet.columns = dataset.columns.map((column) => ({
+        header: column.title,
+        key: column.id,
+      }));
+      return {
+        async append(records) {
+          sheet.addRows(pickColumns(dataset.columns, records));
+        },
+        async close() {
+          return outputPath;
+        },
+      };
+    },
+    async finish() {
+      const contents = await workbook.xlsx.writeBuffer();
+      writeOutputFile(fileName, Buffer.from(contents), options);
+    },
+  };
+  return writer;
+}
+
+/**
+ * Creates the writer for an output format. Workbook based formats gather
+ * every dataset into `<workbookName>.xlsx`.
+ */
+export function createOutputWriter(
+  format: OutputFormat,
+  options: OutputOptions,
+  workbookName: string = "uar-export"
+): OutputWriter {
+  if (format === "xlsx") {
+    return createWorkbookWriter(workbookName, options);
+  }
+  return createFileWriter(format, options);
+}
+
+/**
+ * Writes a dataset with the writer from the options, or as a CSV file when
+ * none was given. Returns the path of the file holding the dataset.
+ */
+export async function writeDataset(
+  dataset: OutputDataset,
+  options: OutputOptions = {}
+): Promise<string> {
+  if (options.writer) {
+    return options.writer.write(dataset);
+  }
+  return createOutputWriter("csv", options).write(dataset);
+}
+
+/**
+ * Opens a dataset written page by page with the writer from the options, or
+ * as a CSV file when none was given
+ */
+export function openDataset(
+  dataset: OutputDatasetHeader,
+  options: OutputOptions = {}
+): DatasetStream {
+  return (options.writer || createOutputWriter("csv", options)).open(dataset);
+}
@@ -0,0 +1,91 @@
+import * as crypto from "crypto";
+import { maskLast4 } from "./mask";
+
+export const REDACTION_PROFILES = ["none", "partial", "full"] as const;
+
+// none: values as fetched; partial: last 4 digits and year of birth; full: removed
+export type RedactionProfile = typeof REDACTION_PROFILES[number];
+
+export interface RedactionOptions {
+  profile: RedactionProfile;
+  // When set, identifiers also get a keyed HMAC column so redacted rows can be joined
+  hmacKey?: string;
+}
+
+export const NO_REDACTION: RedactionOptions = { profile: "none" };
+
+export function isRedactionProfile(value: string): value is RedactionProfile {
+  return (REDACTION_PROFILES as readonly string[]).includes(value);
+}
+
+/**
+ * Builds the redaction options for a profile, reading the HMAC key from
+ * REDACTION_HMAC_KEY
+ */
+export function getRedactionOptions(profile: RedactionProfile): RedactionOptions {
+  return {
+    profile,
+    hmacKey: process.env.REDACTION_HMAC_KEY || undefined,
+  };
+}
+
+/**
+ * Redacts an identifier such as an SSN or a bank account number
+ */
+export function redactIdentifier(
+  value: string | null | undefined,
+  options: RedactionOptions
+): string {
+  if (!value) {
+    return "";
+  }
+  switch (options.profile) {
+    case "none":
+      return value;
+    case "partial":
+      return maskLast4(value);
+    case "full":
+      return "";
+  }
+}
+
+/**
+ * Redacts a YYYY-MM-DD date of birth down to its year, or entirely
+ */
+export function redactDateOfBirth(
+  value: string | null | undefined,
+  options: RedactionOptions
+): string {
+  if (!value) {
+    return "";
+  }
+  switch (options.profile) {
+    case "none":
+      return value;
+    case "partial":
+      return value.slice(0, 4);
+    case "full":
+      return "";
+  }
+}
+
+/**
+ * Returns a keyed HMAC-SHA256 of an identifier, stable across files and
+ * runs that use the same key. Empty when no key is configured.
+ */
+export function hashIdentifier(
+  value: string | null | undefined,
+  options: RedactionOptions
+): string {
+  if (!value || !options.hmacKey) {
+    return "";
+  }
+  return crypto.createHmac("sha256", options.hmacKey).update(value).digest("hex");
+}
+
+/**
+ * Describes the redaction applied, for logs and manifests
+ */
+export function describeRedaction(options: RedactionOptions): string {
+  return options.hmacKey ? `${options.profile} (with HMAC)` : options.profile;
+}
@@ -0,0 +1,634 @@
+import { after, before, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { FakeApis, FakeRequest, startFakeApis } from "./fakes/fake-apis";
+import { getNeo4jTestDatabase, seedNeo4j } from "./fakes/neo4j";
+import { EMPLOYER_ID, PAYROLL_RUN_ID } from "./fakes/seed-data";
+import { createTempDir, readCsv, runCli } from "./helpers/cli";
+
+const neo4jDatabase = getNeo4jTestDatabase();
+const isSalsaRequest = (request: FakeRequest) => request.url === "/api/graphql";
+
+describe("commands against the fake APIs", () => {
+  let apis: FakeApis;
+  let env: Record<string, string>;
+
+  before(async () => {
+    apis = await startFakeApis();
+    env = { ...apis.env, ...neo4jDatabase.env };
+    await seedNeo4j(neo4jDatabase);
+  });
+
+  after(async () => {
+    await apis.close();
+  });
+
+  /**
+   * Runs a command in a fresh folder and fails with its output if it fails
+   */
+  async function run(args: string[]): Promise<string> {
+    const dir = createTempDir();
+    const result = await runCli(args, env, dir);
+    assert.equal(result.code, 0, result.output);
+    return dir;
+  }
+
+  it("get-increase-transaction exports the kept payment orders", async () => {
+    const dir = await run(["get-increase-transaction", PAYROLL_RUN_ID]);
+    const rows = readCsv(path.join(dir, "output", "increase-transactions.csv"));
+
+    // po_3 is cancelled and po_4 is a tax transfer
+    assert.deepEqual(
+      rows.map((row) => row["ACH transfer ID"]),
+      ["ach_1", "ach_2"]
+    );
+    assert.equal(rows[0]["Payroll run ID"], PAYROLL_RUN_ID);
+    assert.equal(rows[0]["Amount"], "150000");
+    assert.equal(rows[0]["Signed amount"], "-150000");
+    assert.equal(rows[0]["Transaction ID"], "txn_1");
+    assert.equal(rows[0]["Account number (masked)"], "********6789");
+    assert.equal(rows[0]["Kept reason"].includes("status completed"), true);
+    // From the order metadata, then from the counterparty metadata
+    assert.equal(rows[0]["Worker ID"], "wrk_test1");
+    assert.equal(rows[1]["Worker ID"], "wrk_test2");
+
+    const summary = readCsv(path.join(dir, "output", "worker-payment-summary.csv"));
+    assert.deepEqual(
+      summary.map((row) => [row["Worker ID"], row["Total paid"], row["Payment count"]]),
+      [
+        ["wrk_test1", "150000", "1"],
+        ["wrk_test2", "98000", "1"],
+      ]
+    );
+  });
+
+  it("get-employer-info exports the business information", async () => {
+    const dir = await run(["get-employer-info", EMPLOYER_ID]);
+    const rows = readCsv(path.join(dir, "output", "employer-business-info.csv"));
+
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0]["Employer ID"], EMPLOYER_ID);
+    assert.equal(rows[0]["Business name"], "Acme Corp");
+    assert.equal(rows[0]["EIN"], "12-3456789");
+    assert.equal(rows[0]["City"], "San Francisco");
+    assert.equal(rows[0]["State"], "CA");
+    assert.equal(rows[0]["Legal name"], "Acme Corporation LLC");
+    assert.equal(
+      rows[0]["Tax identifiers"],
+      "CA SIT (California): 111-2222-3; FEIN (Federal): 12-3456789"
+    );
+    assert.equal(rows[0]["Incorporation date"], "2015-02-03");
+    assert.equal(rows[0]["Incorporation state"], "DE");
+    assert.equal(rows[0]["Contact email"], "finance@acme.test");
+    assert.equal(rows[0]["Contact phone"], "+14155550100");
+  });
+
+  it("get-employer-info exports owners and officers, redacted on request", async () => {
+    const dir = await run(["get-employer-info", EMPLOYER_ID, "--redact", "partial"]);
+    const rows = readCsv(path.join(dir, "output", "employer-owners.csv"));
+
+    assert.equal(rows.length, 2);
+    assert.deepEqual(rows[0], {
+      "Employer ID": EMPLOYER_ID,
+      "First name": "Grace",
+      "Last name": "Hopper",
+      "Title": "CEO",
+      "Roles": "OWNER, OFFICER",
+      "Ownership %": "60",
+      "Date of birth": "1970",
+      "Address line 1": "5 Pine St",
+      "Address line 2": "",
+      "City": "Palo Alto",
+      "State": "CA",
+      "Postal code": "94301",
+      "Country": "US",
+    });
+    assert.equal(rows[1]["Roles"], "OFFICER");
+    assert.equal(rows[1]["Ownership %"], "");
+    assert.equal(rows[1]["Date of birth"], "");
+  });
+
+  it("get-employer-info derives the employer from a payroll run", async () => {
+    const dir = await run(["get-employer-info", "--payroll-run", PAYROLL_RUN_ID]);
+    const rows = readCsv(path.join(dir, "output", "employer-business-info.csv"));
+    assert.deepEqual(rows.map((row) => row["Employer ID"]), [EMPLOYER_ID]);
+  });
+
+  it("get-worker-info exports every worker of an employer", async () => {
+    const dir = await run(["get-worker-info", EMPLOYER_ID]);
+    const rows = readCsv(path.join(dir, "output", "worker-personal-info.csv"));
+
+    assert.deepEqual(
+      rows.map((row) => row["Worker ID"]),
+      ["wrk_test1", "wrk_test2"]
+    );
+    assert.equal(rows[0]["SSN"], "123-45-6789");
+    assert.equal(rows[1]["SSN"], "");
+  });
+
+  it("get-worker-info exports employment and recent pay", async () => {
+    const dir = await run(["get-worker-info", EMPLOYER_ID]);
+    const rows = readCsv(path.join(dir, "output", "worker-employment.csv"));
+
+    assert.deepEqual(rows[0], {
+      "Employer ID": EMPLOYER_ID,
+      "Worker ID": "wrk_test1",
+      "Employment status": "ACTIVE",
+      "Hire date": "2021-03-01",
+      "Termination date": "",
+      "Job title": "Analyst",
+      "Pay rate": "45.50",
+      "Pay rate currency": "USD",
+      "Pay rate period": "HOUR",
+      "Recent payment count": "2",
+      "Recent gross pay": "3640.30",
+      "Recent net pay": "2800.10",
+      "First pay date": "2024-05-15",
+      "Last pay date": "2024-05-31",
+    });
+    assert.equal(rows[1]["Termination date"], "2024-01-31");
+    assert.equal(rows[1]["Recent payment count"], "0");
+    assert.equal(rows[1]["Recent gross pay"], "0.00");
+  });
+
+  it("get-worker-info pages through the workers of an employer", async () => {
+    const dir = createTempDir();
+    const salsaRequestCount = apis.requests.filter(isSalsaRequest).length;
+    const result = await runCli(
+      ["get-worker-info", EMPLOYER_ID],
+      { ...env, SALSA_WORKER_PAGE_SIZE: "1" },
+      dir
+    );
+    assert.equal(result.code, 0, result.output);
+
+    const rows = readCsv(path.join(dir, "output", "worker-personal-info.csv"));
+    assert.deepEqual(
+      rows.map((row) => row["Worker ID"]),
+      ["wrk_test1", "wrk_test2"]
+    );
+    assert.equal(apis.requests.filter(isSalsaRequest).length - salsaRequestCount, 2);
+  });
+
+  it("get-worker-info filters by status and hire date", async () => {
+    for (const args of [["--status", "active"], ["--hired-after", "2020-01-01"]]) {
+      const dir = await run(["get-worker-info", EMPLOYER_ID, ...args]);
+      const rows = readCsv(path.join(dir, "output", "worker-personal-info.csv"));
+      assert.deepEqual(rows.map((row) => row["Worker ID"]), ["wrk_test1"], args.join(" "));
+    }
+
+    const dir = await run(["get-worker-info", EMPLOYER_ID, "--status", "terminated"]);
+    const rows = readCsv(path.join(dir, "output", "worker-personal-info.csv"));
+    assert.deepEqual(rows.map((row) => row["Worker ID"]), ["wrk_test2"]);
+  });
+
+  it("get-worker-info keeps the pages listed before a failed page", async () => {
+    apis.failingWorkerCursors.add("1");
+    try {
+      const dir = createTempDir();
+      const result = await runCli(
+        ["get-worker-info", EMPLOYER_ID],
+        { ...env, SALSA_WORKER_PAGE_SIZE: "1" },
+        dir
+      );
+      assert.equal(result.code, 0, result.output);
+      assert.match(result.output, /Workers page after 1 failed/);
+
+      const rows = readCsv(path.join(dir, "output", "worker-personal-info.csv"));
+      assert.deepEqual(rows.map((row) => row["Worker ID"]), ["wrk_test1"]);
+    } finally {
+      apis.failingWorkerCursors.clear();
+    }
+  });
+
+  it("get-worker-info --worker-id --redact partial masks the SSN and birth date", async () => {
+    const dir = await run([
+      "get-worker-info",
+      "--worker-id",
+      "wrk_test1",
+      "--redact",
+      "partial",
+    ]);
+    const rows = readCsv(path.join(dir, "output", "worker-personal-info.csv"));
+
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0]["First Name"], "Ada");
+    assert.equal(rows[0]["SSN"], "*******6789");
+    assert.equal(rows[0]["Date of Birth"], "1990");
+  });
+
+  it("get-worker-info --worker-id batches the workers and reports unknown ones", async () => {
+    const dir = createTempDir();
+    const salsaRequestCount = apis.requests.filter(isSalsaRequest).length;
+    const result = await runCli(
+      ["get-worker-info", "--worker-id", "wrk_test1", "wrk_unknown", "wrk_test2"],
+      { ...env, SALSA_WORKER_BATCH_SIZE: "2" },
+      dir
+    );
+    assert.equal(result.code, 0, result.output);
+
+    const rows = readCsv(path.join(dir, "output", "worker-personal-info.csv"));
+    assert.deepEqual(
+      rows.map((row) => row["Worker ID"]),
+      ["wrk_test1", "wrk_test2"]
+    );
+    assert.match(result.output, /wrk_unknown.*Worker wrk_unknown not found/);
+
+    const salsaRequests = apis.requests.filter(isSalsaRequest).slice(salsaRequestCount);
+    assert.equal(salsaRequests.length, 2);
+    for (const request of salsaRequests) {
+      // IDs travel as variables, never inside the query text
+      assert.doesNotMatch(JSON.parse(request.body).query, /wrk_/);
+    }
+  });
+
+  it("resolve-employers prints the owner of each payroll run", async () => {
+    const result = await runCli(["resolve-employers", PAYROLL_RUN_ID], env, createTempDir());
+    assert.equal(result.code, 0, result.output);
+    assert.match(result.output, new RegExp(`${PAYROLL_RUN_ID}: ${EMPLOYER_ID}`));
+  });
+
+  it("resolve-employers reads every page of payment orders next to the Salsa owner", async () => {
+    const isPaymentOrderRequest = (request: FakeRequest) =>
+      request.url.startsWith("/api/payment_orders");
+    const before = apis.requests.filter(isPaymentOrderRequest).length;
+    const known = await runCli(["resolve-employers", PAYROLL_RUN_ID], env, createTempDir());
+    assert.equal(known.code, 0, known.output);
+    assert.match(known.output, new RegExp(`${PAYROLL_RUN_ID}: ${EMPLOYER_ID}\\b`));
+    assert.doesNotMatch(known.output, /WARN/);
+    const requests = apis.requests.filter(isPaymentOrderRequest).slice(before);
+    assert.ok(requests.length > 1, "every page of payment orders is read");
+    assert.match(requests[0].url, /per_page=100/);
+
+    // Salsa does not know payrun_test0, its debit carries the employer ID
+    const fallback = await runCli(["resolve-employers", "payrun_test0"], env, createTempDir());
+    assert.equal(fallback.code, 0, fallback.output);
+    assert.match(fallback.output, new RegExp(`payrun_test0: ${EMPLOYER_ID}`));
+  });
+
+  it("resolve-employers warns when the payment orders name another employer than Salsa", async () => {
+    const result = await runCli(["resolve-employers", "payrun_test2"], env, createTempDir());
+    assert.equal(result.code, 0, result.output);
+    assert.match(
+      result.output,
+      new RegExp(`payrun_test2 is owned by ${EMPLOYER_ID} in Salsa but its payment orders reference er_other`)
+    );
+    assert.match(result.output, new RegExp(`payrun_test2: ${EMPLOYER_ID}, er_other`));
+  });
+
+  it("run-all exports the employer datasets without payroll runs", async () => {
+    const dir = createTempDir();
+    const result = await runCli(["run-all", "--employer", EMPLOYER_ID], env, dir);
+    assert.equal(result.code, 0, result.output);
+    assert.match(result.output, /Skipping get-increase-transaction/);
+
+    const output = path.join(dir, "output");
+    assert.equal(fs.existsSync(path.join(output, "increase-transactions.csv")), false);
+    assert.equal(readCsv(path.join(output, "employer-business-info.csv")).length, 1);
+    assert.equal(readCsv(path.join(output, "worker-bank-info.csv")).length, 3);
+  });
+
+  it("rejects IDs with the wrong prefix", async () => {
+    const result = await runCli(["get-employer-info", "wrk_test1"], env, createTempDir());
+    assert.notEqual(result.code, 0);
+    assert.match(result.output, /expected the "er_" prefix/);
+  });
+
+  it("get-employer-bank-info exports accounts and authorizers", async () => {
+    const dir = await run(["get-employer-bank-info", EMPLOYER_ID]);
+    const rows = readCsv(path.join(dir, "output", "employer-bank-info.csv"));
+
+    assert.equal(rows.length, 2);
+    const active = rows.find((row) => row["Bank name"] === "First Test Bank");
+    assert.ok(active, JSON.stringify(rows));
+    assert.equal(active["Authorizer email"], "grace@acme.test");
+    assert.equal(active["Client IP"], "203.0.113.7");
+
+    const signatures = readCsv(path.join(dir, "output", "payment-authorizations.csv"));
+    assert.deepEqual(
+      signatures.map((row) => [
+        row["Employer bank account ID"],
+        row["Authorization ID"],
+        row["Signed date"],
+        row["Revoked"],
+        row["Authorizer email"],
+        row["Client IP"],
+      ]),
+      [
+        ["eba_1", "pa_1r", "2023-01-09", "yes", "edsger@acme.test", "192.0.2.44"],
+        ["eba_1", "pa_1", "2023-01-10", "no", "grace@acme.test", "203.0.113.7"],
+        ["eba_0", "pa_0", "2022-05-01", "no", "grace@acme.test", "198.51.100.4"],
+      ]
+    );
+  });
+
+  it("get-worker-bank-info exports active and deleted accounts", async () => {
+    const dir = await run(["get-worker-bank-info", EMPLOYER_ID]);
+    const rows = readCsv(path.join(dir, "output", "worker-bank-info.csv"));
+    assert.equal(rows.length, 3);
+  });
+
+  it("get-worker-bank-info resolves routing numbers from the FedACH directory", async () => {
+    const fedach = path.join(__dirname, "..", "..", "test", "fakes", "fedach");
+    const dir = createTempDir();
+    const result = await runCli(["get-worker-bank-info", EMPLOYER_ID], {
+      ...env,
+      FEDACH_DIRECTORY_FILE: path.join(fedach, "FedACHdir.txt"),
+      NEOBANK_ROUTING_NUMBERS_FILE: path.join(fedach, "neobank-routing-numbers.csv"),
+    }, dir);
+    assert.equal(result.code, 0, result.output);
+
+    const rows = readCsv(path.join(dir, "output", "worker-bank-info.csv"));
+    assert.deepEqual(
+      rows
+        .map((row) => [
+          row["Bank name"],
+          row["Routing number valid"],
+          row["Fed institution"],
+          row["Fed state"],
+          row["Bank name mismatch"],
+          row["Neobank / prepaid"],
+        ])
+        .sort(),
+      [
+        ["Chase", "Yes", "JPMORGAN CHASE BANK, NA", "FL", "", ""],
+        ["State Street", "Yes", "FEDERAL RESERVE BANK", "GA", "Yes", ""],
+        ["Wells Fargo", "Yes", "WELLS FARGO BANK NA", "MN", "", "Example prepaid card"],
+      ]
+    );
+  });
+
+  it("get-bank-account-timeline flags the swap before the failed debit", async () => {
+    const dir = await run(["get-bank-account-timeline", EMPLOYER_ID]);
+    const events = readCsv(path.join(dir, "output", "bank-account-timeline.csv"));
+    assert.deepEqual(
+      events.map((row) => [row["Event"], row["Employer bank account ID"], row["Authorizer email"]]),
+      [
+        ["ADDED", "eba_0", "grace@acme.test"],
+        ["REPLACED", "eba_1", "grace@acme.test"],
+        ["DELETED", "eba_0", "grace@acme.test"],
+      ]
+    );
+
+    const alerts = readCsv(path.join(dir, "output", "bank-account-churn.csv"));
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0]["Pattern"], "CHANGE_BEFORE_FAILED_DEBIT");
+    assert.equal(alerts[0]["Debit payment order ID"], "po_debit_1");
+  });
+
+  it("find-shared-bank-accounts clusters the holders of shared accounts", async () => {
+    const dir = await run(["find-shared-bank-accounts", EMPLOYER_ID]);
+    const rows = readCsv(path.join(dir, "output", "shared-bank-accounts.csv"));
+    const holders = (accountNumber: string) =>
+      rows
+        .filter((row) => row["Account number"] === accountNumber)
+        .map((row) => [row["Holder type"], row["Employer ID"], row["Worker ID"], row["Status"]])
+        .sort();
+
+    assert.equal(rows.length, 4);
+    assert.deepEqual(holders("000123456789"), [
+      ["worker", "er_test1", "wrk_test1", "active"],
+      ["worker", "er_test2", "wrk_other", "active"],
+    ]);
+    assert.deepEqual(holders("555000111"), [
+      ["employer", "er_test1", "", "active"],
+      ["worker", "er_test2", "wrk_other", "deleted"],
+    ]);
+    const funding = rows.find((row) => row["Holder type"] === "employer");
+    assert.equal(funding?.["Reasons"], "WORKER_AND_EMPLOYER");
+    assert.equal(funding?.["Authorizer email"], "grace@acme.test");
+  });
+
+  it("analyze-authorizer-ips tags the signing IPs from the offline data files", async () => {
+    const ipData = path.join(__dirname, "..", "..", "test", "fakes", "ip-data");
+    const dir = createTempDir();
+    const result = await runCli(["analyze-authorizer-ips", EMPLOYER_ID], {
+      ...env,
+      IP_GEO_FILE: path.join(ipData, "geo.csv"),
+      IP_ASN_FILE: path.join(ipData, "asn.tsv"),
+      IP_DATACENTER_ASN_FILE: path.join(ipData, "datacenter-asns.txt"),
+      IP_VPN_ASN_FILE: path.join(ipData, "vpn-asns.txt"),
+    }, dir);
+    assert.equal(result.code, 0, result.output);
+
+    const rows = readCsv(path.join(dir, "output", "authorizer-ip-analysis.csv"));
+    assert.deepEqual(
+      rows.map((row) => [row["Client IP"], row["Country"], row["ASN"], row["Flags"]]),
+      [
+        ["192.0.2.44", "", "", "NOT_PUBLIC"],
+        ["198.51.100.4", "US", "", "NOT_PUBLIC"],
+        ["203.0.113.7", "NL", "AS64500", "NOT_PUBLIC, DATACENTER, SHARED_ACROSS_EMPLOYERS"],
+      ]
+    );
+    assert.equal(rows[2]["Other employers signing from this IP"], "er_test2");
+  });
+
+  it("build-case writes a manifest that verify-manifest accepts until a file changes", async () => {
+    const dir = await run([
+      "build-case",
+      "--case-id",
+      "UAR-TEST-1",
+      "--payroll-run",
+      PAYROLL_RUN_ID,
+    ]);
+    const caseDir = path.join(dir, "output", "cases", "UAR-TEST-1");
+    const manifest = JSON.parse(fs.readFileSync(path.join(caseDir, "manifest.json"), "utf8"));
+
+    assert.deepEqual(manifest.inputs.resolvedEmployerIds, { [PAYROLL_RUN_ID]: [EMPLOYER_ID] });
+    const transactions = manifest.datasets.find(
+      (dataset: { dataset: string }) => dataset.dataset === "increase-transactions"
+    );
+    assert.equal(transactions.recordCount, 2);
+    assert.ok(manifest.files.length > 0);
+
+    const verified = await runCli(["verify-manifest", caseDir], env, dir);
+    assert.equal(verified.code, 0, verified.output);
+
+    fs.appendFileSync(path.join(caseDir, "employer-business-info.csv"), "tampered\n");
+    const tampered = await runCli(["verify-manifest", caseDir], env, dir);
+    assert.notEqual(tampered.code, 0);
+    assert.match(tampered.output, /MODIFIED\s+employer-business-info\.csv/);
+  });
+
+  it("verify-manifest checks a file rewritten by a later command against the latest manifest", async () => {
+    const dir = await run(["get-employer-info", EMPLOYER_ID]);
+    const output = path.join(dir, "output");
+    const before = fs.readFileSync(path.join(output, "employer-owners.csv"), "utf8");
+    const rerun = await runCli(["run-all", "--employer", EMPLOYER_ID, "--redact", "full"], env, dir);
+    assert.equal(rerun.code, 0, rerun.output);
+    assert.notEqual(fs.readFileSync(path.join(output, "employer-owners.csv"), "utf8"), before);
+
+    const verified = await runCli(["verify-manifest", output], env, dir);
+    assert.equal(verified.code, 0, verified.output);
+    assert.match(verified.output, /SKIPPED\s+employer-owners\.csv \(written again by run-all\.manifest\.json\)/);
+
+    fs.appendFileSync(path.join(output, "employer-owners.csv"), "tampered\n");
+    const tampered = await runCli(["verify-manifest", output], env, dir);
+    assert.notEqual(tampered.code, 0);
+    assert.equal(tampered.output.match(/MODIFIED\s+employer-owners\.csv/g)?.length, 1);
+  });
+
+  it("verify-manifest rejects a rewritten manifest when MANIFEST_HMAC_KEY is set", async () => {
+    const signing = { ...env, MANIFEST_HMAC_KEY: "test-manifest-key" };
+    const dir = createTempDir();
+    const result = await runCli(["get-employer-info", EMPLOYER_ID], signing, dir);
+    assert.equal(result.code, 0, result.output);
+
+    const output = path.join(dir, "output");
+    const manifestPath = path.join(output, "get-employer-info.manifest.json");
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    assert.match(manifest.hmacSha256, /^[0-9a-f]{64}$/);
+    const verified = await runCli(["verify-manifest", output], signing, dir);
+    assert.equal(verified.code, 0, verified.output);
+
+    // Rewriting a file together with its checksum is caught by the HMAC
+    const csvPath = path.join(output, "employer-business-info.csv");
+    fs.appendFileSync(csvPath, "tampered\n");
+    const entry = manifest.files.find(
+      (file: { file: string }) => file.file === "employer-business-info.csv"
+    );
+    entry.sha256 = crypto.createHash("sha256").update(fs.readFileSync(csvPath)).digest("hex");
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n");
+
+    const unkeyed = await runCli(["verify-manifest", output], env, dir);
+    assert.equal(unkeyed.code, 0, unkeyed.output);
+    assert.match(unkeyed.output, /SIGNATURE not checked/);
+    const tampered = await runCli(["verify-manifest", output], signing, dir);
+    assert.notEqual(tampered.code, 0);
+    assert.match(tampered.output, /SIGNATURE does not match MANIFEST_HMAC_KEY/);
+  });
+
+  it("build-case records failed Increase lookups per entity and keeps the other rows", async () => {
+    apis.missingIncreaseIds.add("ach_2");
+    try {
+      const dir = createTempDir();
+      await runCli(["build-case", "--case-id", "UAR-TEST-2", "--payroll-run", PAYROLL_RUN_ID], env, dir);
+      const caseDir = path.join(dir, "output", "cases", "UAR-TEST-2");
+      const manifest = JSON.parse(fs.readFileSync(path.join(caseDir, "manifest.json"), "utf8"));
+      const transactions = manifest.datasets.find(
+        (dataset: { dataset: string }) => dataset.dataset === "increase-transactions"
+      );
+
+      assert.equal(transactions.recordCount, 1);
+      assert.deepEqual(
+        transactions.failures.map((failure: { entityId: string }) => failure.entityId),
+        ["ach_2"]
+      );
+      const rows = readCsv(path.join(caseDir, "increase-transactions.csv"));
+      assert.deepEqual(rows.map((row) => row["ACH transfer ID"]), ["ach_1"]);
+    } finally {
+      apis.missingIncreaseIds.clear();
+    }
+  });
+
+  it("build-case records a failed employer and keeps the other employers", async () => {
+    const dir = createTempDir();
+    await runCli(
+      ["build-case", "--case-id", "UAR-TEST-3", "--employer", `${EMPLOYER_ID},er_missing`],
+      env,
+      dir
+    );
+    const caseDir = path.join(dir, "output", "cases", "UAR-TEST-3");
+    const manifest = JSON.parse(fs.readFileSync(path.join(caseDir, "manifest.json"), "utf8"));
+    const failedIds = (name: string) =>
+      manifest.datasets
+        .find((dataset: { dataset: string }) => dataset.dataset === name)
+        .failures.map((failure: { entityId: string }) => failure.entityId);
+
+    assert.deepEqual(failedIds("employer-business-info"), ["er_missing"]);
+    assert.deepEqual(failedIds("employer-owners"), ["er_missing"]);
+    const rows = readCsv(path.join(caseDir, "employer-business-info.csv"));
+    assert.deepEqual(rows.map((row) => row["Employer ID"]), [EMPLOYER_ID]);
+  });
+
+  it("--format json writes JSON records", async () => {
+    const dir = await run(["get-employer-info", EMPLOYER_ID, "--format", "json"]);
+    const records = JSON.parse(
+      fs.readFileSync(path.join(dir, "output", "employer-business-info.json"), "utf8")
+    );
+    assert.equal(records[0].employer_id, EMPLOYER_ID);
+  });
+
+  it("--replay reproduces a recorded run without the APIs", async () => {
+    const fixturesDir = path.join(createTempDir(), "fixtures");
+    await run(["--record", fixturesDir, "get-employer-info", EMPLOYER_ID]);
+
+    const unreachable: Record<string, string> = {
+      MODERN_TREASURY_API_URL: "http://127.0.0.1:9/api",
+      INCREASE_API_URL: "http://127.0.0.1:9",
+      SALSA_API_URL: apis.env.SALSA_API_URL,
+    };
+    const dir = createTempDir();
+    const requestCount = apis.requests.length;
+    const result = await runCli(
+      ["--replay", fixturesDir, "get-employer-info", EMPLOYER_ID],
+      unreachable,
+      dir
+    );
+
+    assert.equal(result.code, 0, result.output);
+    assert.equal(apis.requests.length, requestCount);
+    const rows = readCsv(path.join(dir, "output", "employer-business-info.csv"));
+    assert.equal(rows[0]["EIN"], "12-3456789");
+  });
+
+  it("--record encrypts the fixtures of an encrypted run and --replay decrypts them", async () => {
+    const fixturesDir = path.join(createTempDir(), "fixtures");
+    const encrypting = { ...env, UAR_ENCRYPTION_PASSPHRASE: "fixture passphrase" };
+    const recorded = await runCli(
+      ["--record", fixturesDir, "get-employer-info", EMPLOYER_ID, "--encrypt"],
+      encrypting,
+      createTempDir()
+    );
+    assert.equal(recorded.code, 0, recorded.output);
+
+    const fixtures = listFiles(fixturesDir);
+    assert.ok(fixtures.length > 0);
+    for (const fixture of fixtures) {
+      assert.match(fixture, /\.json\.enc$/);
+      assert.equal(fs.readFileSync(fixture).includes("12-3456789"), false, fixture);
+    }
+
+    const dir = createTempDir();
+    const replayed = await runCli(
+      ["--replay", fixturesDir, "get-employer-info", EMPLOYER_ID],
+      encrypting,
+      dir
+    );
+    assert.equal(replayed.code, 0, replayed.output);
+    const rows = readCsv(path.join(dir, "output", "employer-business-info.csv"));
+    assert.equal(rows[0]["EIN"], "12-3456789");
+  });
+
+  it("--replay does not retry a recorded server error", async () => {
+    const fixturesDir = path.join(createTempDir(), "fixtures");
+    await run(["--record", fixturesDir, "get-increase-transaction", PAYROLL_RUN_ID]);
+
+    const transferFixture = listFiles(path.join(fixturesDir, "http")).find((fixture) =>
+      JSON.parse(fs.readFileSync(fixture, "utf8")).request.url.endsWith("/ach_transfers/ach_2")
+    );
+    assert.ok(transferFixture);
+    const fixture = JSON.parse(fs.readFileSync(transferFixture, "utf8"));
+    fixture.response.status = 503;
+    fs.writeFileSync(transferFixture, JSON.stringify(fixture));
+
+    const dir = createTempDir();
+    const result = await runCli(
+      ["--replay", fixturesDir, "get-increase-transaction", PAYROLL_RUN_ID],
+      env,
+      dir
+    );
+    assert.equal(result.code, 0, result.output);
+    assert.doesNotMatch(result.output, /retry 1\//);
+    const rows = readCsv(path.join(dir, "output", "increase-transactions.csv"));
+    assert.deepEqual(rows.map((row) => row["ACH transfer ID"]), ["ach_1"]);
+  });
+});
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir).flatMap((name) => {
+    const filePath = path.join(dir, name);
+    return fs.statSync(filePath).isDirectory() ? listFiles(filePath) : [filePath];
+  });
+}
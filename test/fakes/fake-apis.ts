@@ -0,0 +1,228 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  achTransfers,
+  counterparties,
+  employers,
+  paymentOrders,
+  payrollRuns,
+  transactions,
+  workers,
+} from "./seed-data";
+
+// Small pages so the Modern Treasury cursor pagination is exercised
+const PAYMENT_ORDER_PAGE_SIZE = 2;
+
+export interface FakeRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+export interface FakeApis {
+  // Environment pointing the integrations at the fakes
+  env: Record<string, string>;
+  requests: FakeRequest[];
+  // Cursors after which the employer workers page fails with a GraphQL error
+  failingWorkerCursors: Set<string>;
+  // Increase ACH transfer and transaction IDs answered with a 404
+  missingIncreaseIds: Set<string>;
+  close(): Promise<void>;
+}
+
+type Handler = (
+  request: FakeRequest,
+  url: URL
+) => { status: number; body: unknown; headers?: Record<string, string> };
+
+const notFound = (message: string) => ({ status: 404, body: { message } });
+
+/**
+ * Serves the Modern Treasury payment order and counterparty endpoints.
+ * Payment orders are filtered on their metadata and direction.
+ */
+const modernTreasury: Handler = (request, url) => {
+  if (url.pathname === "/api/payment_orders") {
+    const matching = paymentOrders.filter((order) => {
+      let matches = true;
+      url.searchParams.forEach((value, name) => {
+        const metadataKey = /^metadata\[(\w+)\]$/.exec(name);
+        if (metadataKey) {
+          matches = matches && (order.metadata as Record<string, string>)[metadataKey[1]] === value;
+        } else if (name === "direction") {
+          matches = matches && order.direction === value;
+        }
+      });
+      return matches;
+    });
+    const offset = Number(url.searchParams.get("after_cursor") || 0);
+    const nextOffset = offset + PAYMENT_ORDER_PAGE_SIZE;
+    return {
+      status: 200,
+      body: matching.slice(offset, nextOffset),
+      headers: nextOffset < matching.length ? { "X-After-Cursor": String(nextOffset) } : undefined,
+    };
+  }
+
+  const counterparty = /^\/api\/counterparties\/([^/]+)$/.exec(url.pathname);
+  if (counterparty) {
+    const found = counterparties.find((entry) => entry.id === counterparty[1]);
+    return found ? { status: 200, body: found } : notFound("Counterparty not found");
+  }
+  return notFound(`Unknown path ${url.pathname}`);
+};
+
+/**
+ * Serves the Increase ACH transfer and transaction endpoints
+ */
+function createIncrease(missingIds: Set<string>): Handler {
+  return (request, url) => {
+    const match = /^\/(ach_transfers|transactions)\/([^/]+)$/.exec(url.pathname);
+    if (!match) {
+      return notFound(`Unknown path ${url.pathname}`);
+    }
+    const resources: Array<{ id: string }> =
+      match[1] === "ach_transfers" ? achTransfers : transactions;
+    const found = resources.find((resource) => resource.id === match[2]);
+    return found && !missingIds.has(found.id) ? { status: 200, body: found } : notFound("Not found");
+  };
+}
+
+/**
+ * Returns one page of the workers connection of an employer, filtered and
+ * paged with the query variables. Cursors are offsets.
+ */
+function getWorkersConnection(
+  employerId: string,
+  variables: Record<string, any>,
+  failingCursors: Set<string>
+) {
+  const filter = variables.filter || {};
+  const matching = workers.filter(
+    (worker) =>
+      worker.employer.id === employerId &&
+      (!filter.employmentStatus || worker.employmentStatus === filter.employmentStatus) &&
+      (!filter.hiredAfter || worker.hireDate > filter.hiredAfter)
+  );
+  const after = variables.after || "0";
+  if (failingCursors.has(after)) {
+    throw new Error(`Workers page after ${after} failed`);
+  }
+
+  const offset = Number(after);
+  const nextOffset = offset + (variables.first || matching.length);
+  return {
+    pageInfo: {
+      hasNextPage: nextOffset < matching.length,
+      endCursor: String(nextOffset),
+    },
+    edges: matching.slice(offset, nextOffset).map((node) => ({ node })),
+  };
+}
+
+/**
+ * Resolves every employer, worker and payrollRun root field of a query,
+ * aliases included. IDs are read from the query text or its variables, and
+ * unknown workers get an error on their path like Salsa reports them.
+ * Full objects are returned: clients ignore fields they did not select.
+ */
+function createSalsaGraphql(failingWorkerCursors: Set<string>): Handler {
+  return (request) => {
+    const { query, variables = {} } = JSON.parse(request.body || "{}");
+    const data: Record<string, unknown> = {};
+    const errors: Array<{ message: string; path: string[] }> = [];
+    const rootField =
+      /(?:(\w+)\s*:\s*)?\b(employer|worker|payrollRun)\s*\(\s*id\s*:\s*(?:"([^"]*)"|\$(\w+))/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = rootField.exec(query))) {
+      const [, alias, field, literalId, variableName] = match;
+      const id = literalId ?? variables[variableName];
+      const path = [alias || field];
+      let value: unknown = null;
+      if (field === "employer") {
+        const employer = employers.find((entry) => entry.id === id);
+        try {
+          value = employer
+            ? {
+                ...employer,
+                workers: getWorkersConnection(employer.id, variables, failingWorkerCursors),
+              }
+            : null;
+        } catch (error) {
+          errors.push({ message: (error as Error).message, path });
+        }
+      } else if (field === "worker") {
+        value = workers.find((entry) => entry.id === id) || null;
+        if (!value) {
+          errors.push({ message: `Worker ${id} not found`, path });
+        }
+      } else {
+        value = payrollRuns.find((entry) => entry.id === id) || null;
+      }
+      data[path[0]] = value;
+    }
+
+    return { status: 200, body: errors.length > 0 ? { data, errors } : { data } };
+  };
+}
+
+function startServer(handler: Handler, requests: FakeRequest[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const request = { method: req.method || "GET", url: req.url || "/", body };
+      requests.push(request);
+      const result = handler(request, new URL(request.url, "http://localhost"));
+      res.writeHead(result.status, {
+        "Content-Type": "application/json",
+        ...result.headers,
+      });
+      res.end(JSON.stringify(result.body));
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+function getBaseUrl(server: http.Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Starts fake Modern Treasury, Increase and Salsa GraphQL servers on free
+ * local ports
+ */
+export async function startFakeApis(): Promise<FakeApis> {
+  const requests: FakeRequest[] = [];
+  const failingWorkerCursors = new Set<string>();
+  const missingIncreaseIds = new Set<string>();
+  const servers = await Promise.all([
+    startServer(modernTreasury, requests),
+    startServer(createIncrease(missingIncreaseIds), requests),
+    startServer(createSalsaGraphql(failingWorkerCursors), requests),
+  ]);
+  const [modernTreasuryServer, increaseServer, salsaServer] = servers;
+
+  return {
+    env: {
+      MODERN_TREASURY_API_URL: `${getBaseUrl(modernTreasuryServer)}/api`,
+      MODERN_TREASURY_USERNAME: "test",
+      MODERN_TREASURY_PASSWORD: "test",
+      INCREASE_API_URL: getBaseUrl(increaseServer),
+      INCREASE_API_KEY: "test",
+      SALSA_API_URL: `${getBaseUrl(salsaServer)}/api/graphql`,
+      SALSA_AUTH_TOKEN: "test",
+    },
+    requests,
+    failingWorkerCursors,
+    missingIncreaseIds,
+    close: async () => {
+      await Promise.all(
+        servers.map(
+          (server) => new Promise<void>((resolve) => server.close(() => resolve()))
+        )
+      );
+    },
+  };
+}
@@ -0,0 +1,303 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as neo4j from "neo4j-driver";
+
+// Same seed as the live test database, see seedNeo4j
+export const NEO4J_SEED_PATH = path.join(
+  __dirname, "..", "..", "..", "test", "fakes", "neo4j-seed.cypher"
+);
+
+interface FakeNode {
+  labels: string[];
+  props: Record<string, unknown>;
+  neighbors: FakeNode[];
+}
+
+type Row = Record<string, unknown>;
+
+const EMPLOYER_ACCOUNT_LABELS = ["EmployerBankAccount", "DeletedEmployerBankAccount"];
+const ACCOUNT_LABELS = [
+  "WorkerBankAccount",
+  "DeletedWorkerBankAccount",
+  ...EMPLOYER_ACCOUNT_LABELS,
+];
+const COUNTERPARTY_LABELS = ["WorkerCounterparty", "EmployerCounterparty"];
+
+const hasLabel = (node: FakeNode, ...labels: string[]) =>
+  node.labels.some((label) => labels.includes(label));
+const prop = (node: FakeNode | undefined, key: string) => node?.props[key] ?? null;
+
+/**
+ * Builds the graph of neo4j-seed.cypher: only the CREATE statements of
+ * nodes with literal properties and of relationships between them
+ */
+export function loadSeedGraph(seedPath = NEO4J_SEED_PATH): FakeNode[] {
+  const nodes: FakeNode[] = [];
+  const statements = fs
+    .readFileSync(seedPath, "utf8")
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("//"))
+    .join("\n")
+    .split(";");
+
+  for (const statement of statements) {
+    const variables = new Map<string, FakeNode>();
+    const nodePattern = /CREATE \((\w+):(\w+)(?:\s*(\{[^}]*\}))?\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = nodePattern.exec(statement))) {
+      const node: FakeNode = {
+        labels: [match[2]],
+        props: match[3] ? JSON.parse(match[3].replace(/(\w+):\s/g, '"$1": ')) : {},
+        neighbors: [],
+      };
+      variables.set(match[1], node);
+      nodes.push(node);
+    }
+    const relationshipPattern = /CREATE \((\w+)\)-\[:\w+\]->\((\w+)\)/g;
+    while ((match = relationshipPattern.exec(statement))) {
+      const from = variables.get(match[1]);
+      const to = variables.get(match[2]);
+      if (!from || !to) {
+        throw new Error(`Unknown node in seed relationship: ${match[0]}`);
+      }
+      from.neighbors.push(to);
+      to.neighbors.push(from);
+    }
+  }
+  return nodes;
+}
+
+function sortRows(rows: Row[], keys: string[], descending: string[] = []): Row[] {
+  return rows.sort((a, b) => {
+    for (const key of keys) {
+      const order = String(a[key] ?? "").localeCompare(String(b[key] ?? ""));
+      if (order !== 0) {
+        return descending.includes(key) ? -order : order;
+      }
+    }
+    return 0;
+  });
+}
+
+function distinctRows(rows: Row[]): Row[] {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    const key = JSON.stringify(row);
+    return seen.has(key) ? false : (seen.add(key), true);
+  });
+}
+
+/**
+ * Signatures of an account with their authorization, latest unrevoked first
+ * like the ORDER BY of fetchSharedBankAccounts
+ */
+function getSignatures(account: FakeNode) {
+  const signatures: Array<{ pa: FakeNode; pas: FakeNode }> = [];
+  for (const pa of account.neighbors.filter((node) => hasLabel(node, "PaymentAuthorization"))) {
+    for (const pas of pa.neighbors.filter((node) => hasLabel(node, "PaymentAuthorizationSignature"))) {
+      signatures.push({ pa, pas });
+    }
+  }
+  return signatures.sort(
+    (a, b) =>
+      Number(prop(a.pa, "isRevoked") || false) - Number(prop(b.pa, "isRevoked") || false) ||
+      String(prop(b.pa, "signedDate") ?? "").localeCompare(String(prop(a.pa, "signedDate") ?? ""))
+  );
+}
+
+function employerAccounts(graph: FakeNode[], label: string, params: Row): Row[] {
+  const rows: Row[] = [];
+  for (const wc of graph.filter((node) => hasLabel(node, "EmployerCounterparty"))) {
+    if (prop(wc, "employerId") !== params.employerId) {
+      continue;
+    }
+    for (const wba of wc.neighbors.filter((node) => hasLabel(node, label))) {
+      rows.push({
+        id: prop(wba, "entityId"),
+        employerId: prop(wc, "employerId"),
+        bankName: prop(wba, "bankName"),
+        accountNumber: prop(wba, "accountNumber"),
+        routingNumber: prop(wba, "routingNumber"),
+        partyName: prop(wba, "partyName"),
+        createdDate: prop(wba, "createdDate"),
+        ...(label.startsWith("Deleted") ? { deletedDate: prop(wba, "deletedDate") } : {}),
+      });
+    }
+  }
+  return sortRows(rows, ["employerId", "routingNumber", "createdDate"]);
+}
+
+function workerAccounts(graph: FakeNode[], label: string, params: Row): Row[] {
+  const employerIds = params.employerIds as string[];
+  const rows: Row[] = [];
+  for (const wc of graph.filter((node) => hasLabel(node, "WorkerCounterparty"))) {
+    if (!employerIds.includes(prop(wc, "employerId") as string)) {
+      continue;
+    }
+    for (const wba of wc.neighbors.filter((node) => hasLabel(node, label))) {
+      rows.push({
+        employerId: prop(wc, "employerId"),
+        workerId: prop(wc, "workerId"),
+        createdDate: prop(wba, "createdDate"),
+        bankName: prop(wba, "bankName"),
+        accountNumber: prop(wba, "accountNumber"),
+        routingNumber: prop(wba, "routingNumber"),
+        partyName: prop(wba, "partyName"),
+      });
+    }
+  }
+  return sortRows(rows, ["employerId", "workerId", "bankName", "createdDate"]);
+}
+
+function authorizers(graph: FakeNode[], params: Row): Row[] {
+  const accountIds = params.employerBankAccountIds as string[];
+  const rows: Row[] = [];
+  for (const eba of graph.filter((node) => hasLabel(node, ...EMPLOYER_ACCOUNT_LABELS))) {
+    if (!accountIds.includes(prop(eba, "entityId") as string)) {
+      continue;
+    }
+    for (const { pa, pas } of getSignatures(eba)) {
+      rows.push({
+        entityId: prop(eba, "entityId"),
+        signatureId: prop(pas, "entityId"),
+        authorizationId: prop(pa, "entityId"),
+        authorizationType: prop(pa, "authorizationType"),
+        authorizationVersion: prop(pa, "authorizationVersion"),
+        signedDate: prop(pa, "signedDate"),
+        isRevoked: prop(pa, "isRevoked") ?? false,
+        revokedDate: prop(pa, "revokedDate"),
+        authorizerFirstName: prop(pas, "authorizerFirstName"),
+        authorizerLastName: prop(pas, "authorizerLastName"),
+        authorizerEmail: prop(pas, "authorizerEmail"),
+        clientIpAddress: prop(pas, "clientIpAddress"),
+      });
+    }
+  }
+  return distinctRows(rows);
+}
+
+function sharedAccounts(graph: FakeNode[], params: Row): Row[] {
+  const employerIds = params.employerIds as string[];
+  const holdings: Array<{ holder: FakeNode; account: FakeNode }> = [];
+  for (const holder of graph.filter((node) => hasLabel(node, ...COUNTERPARTY_LABELS))) {
+    for (const account of holder.neighbors.filter((node) => hasLabel(node, ...ACCOUNT_LABELS))) {
+      holdings.push({ holder, account });
+    }
+  }
+  const accountKey = (account: FakeNode) =>
+    `${prop(account, "routingNumber")}/${prop(account, "accountNumber")}`;
+  const seedKeys = new Set(
+    holdings
+      .filter(({ holder }) => employerIds.includes(prop(holder, "employerId") as string))
+      .map(({ account }) => accountKey(account))
+  );
+
+  const rows: Row[] = [];
+  seedKeys.forEach((key) => {
+    const holders = distinctRows(
+      holdings
+        .filter(({ account }) => accountKey(account) === key)
+        .map(({ holder, account }) => {
+          const signature = getSignatures(account)[0];
+          return {
+            holderType: hasLabel(holder, "WorkerCounterparty") ? "worker" : "employer",
+            employerId: prop(holder, "employerId"),
+            workerId: prop(holder, "workerId"),
+            bankAccountId: prop(account, "entityId"),
+            bankName: prop(account, "bankName"),
+            partyName: prop(account, "partyName"),
+            createdDate: prop(account, "createdDate"),
+            isDeleted: hasLabel(account, "DeletedWorkerBankAccount", "DeletedEmployerBankAccount"),
+            authorizerFirstName: prop(signature?.pas, "authorizerFirstName"),
+            authorizerLastName: prop(signature?.pas, "authorizerLastName"),
+            authorizerEmail: prop(signature?.pas, "authorizerEmail"),
+          };
+        })
+    );
+    if (holders.length > 1) {
+      const [routingNumber, accountNumber] = key.split("/");
+      rows.push({ routingNumber, accountNumber, holders });
+    }
+  });
+  return sortRows(rows, ["routingNumber", "accountNumber"]);
+}
+
+function signaturesByClientIp(graph: FakeNode[], params: Row): Row[] {
+  const clientIpAddresses = params.clientIpAddresses as string[];
+  const rows: Row[] = [];
+  for (const pas of graph.filter((node) => hasLabel(node, "PaymentAuthorizationSignature"))) {
+    if (!clientIpAddresses.includes(prop(pas, "clientIpAddress") as string)) {
+      continue;
+    }
+    for (const pa of pas.neighbors.filter((node) => hasLabel(node, "PaymentAuthorization"))) {
+      for (const eba of pa.neighbors.filter((node) => hasLabel(node, ...EMPLOYER_ACCOUNT_LABELS))) {
+        for (const ec of eba.neighbors.filter((node) => hasLabel(node, "EmployerCounterparty"))) {
+          rows.push({
+            clientIpAddress: prop(pas, "clientIpAddress"),
+            employerId: prop(ec, "employerId"),
+            bankAccountId: prop(eba, "entityId"),
+            signedDate: prop(pa, "signedDate"),
+            authorizerFirstName: prop(pas, "authorizerFirstName"),
+            authorizerLastName: prop(pas, "authorizerLastName"),
+            authorizerEmail: prop(pas, "authorizerEmail"),
+          });
+        }
+      }
+    }
+  }
+  return sortRows(distinctRows(rows), ["clientIpAddress", "employerId", "signedDate"]);
+}
+
+/**
+ * Answers the queries of src/integrations/salsa-neo4j.ts, told apart by
+ * their parameters and first MATCH, from the seed graph
+ */
+export function runFakeQuery(graph: FakeNode[], cypher: string, params: Row): Row[] {
+  if ("employerId" in params) {
+    const label = /\(wba:(\w+)\)/.exec(cypher)?.[1] || "";
+    return employerAccounts(graph, label, params);
+  }
+  if ("employerBankAccountIds" in params) {
+    return authorizers(graph, params);
+  }
+  if ("clientIpAddresses" in params) {
+    return signaturesByClientIp(graph, params);
+  }
+  if ("employerIds" in params && /\bholders\b/.test(cypher)) {
+    return sharedAccounts(graph, params);
+  }
+  if ("employerIds" in params) {
+    const label = /\(wba:(\w+)\)/.exec(cypher)?.[1] || "";
+    return workerAccounts(graph, label, params);
+  }
+  throw new Error(`The fake Neo4j driver does not know this query: ${cypher.trim()}`);
+}
+
+/**
+ * A driver whose sessions answer from the seed graph, shaped like the
+ * parts of neo4j-driver the integration uses
+ */
+export function createFakeDriver(graph = loadSeedGraph()) {
+  const session = () => ({
+    run: async (cypher: string, params: Row = {}) => ({
+      records: runFakeQuery(graph, cypher, params).map((row) => ({
+        keys: Object.keys(row),
+        get: (key: string) => row[key],
+      })),
+    }),
+    close: async () => undefined,
+  });
+  return { session, close: async () => undefined };
+}
+
+/**
+ * Replaces neo4j-driver's driver() in this process; the CLI loads this file
+ * with --require when no live test database is configured
+ */
+export function installFakeNeo4jDriver(): void {
+  (neo4j as { driver: unknown }).driver = () => createFakeDriver();
+}
+
+if (process.env.FAKE_NEO4J === "1") {
+  installFakeNeo4jDriver();
+}
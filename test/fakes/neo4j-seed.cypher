@@ -0,0 +1,97 @@
+// Seed data for the Neo4j test database, matching test/fakes/seed-data.ts.
+// Covers every node label queried in src/integrations/salsa-neo4j.ts.
+
+CREATE (ec:EmployerCounterparty {employerId: "er_test1"})
+CREATE (eba:EmployerBankAccount {
+  entityId: "eba_1", bankName: "First Test Bank", accountNumber: "555000111",
+  routingNumber: "121000248", partyName: "Acme Corp", createdDate: "2023-01-10"
+})
+CREATE (deba:DeletedEmployerBankAccount {
+  entityId: "eba_0", bankName: "Old Test Bank", accountNumber: "555000999",
+  routingNumber: "026009593", partyName: "Acme Corp", createdDate: "2022-05-01"
+})
+CREATE (ec)-[:HAS_BANK_ACCOUNT]->(eba)
+CREATE (ec)-[:HAS_BANK_ACCOUNT]->(deba)
+CREATE (pa:PaymentAuthorization {
+  entityId: "pa_1", authorizationType: "ACH_DEBIT", authorizationVersion: "v2",
+  signedDate: "2023-01-10", isRevoked: false
+})
+CREATE (pas:PaymentAuthorizationSignature {
+  entityId: "pas_1", authorizerFirstName: "Grace", authorizerLastName: "Hopper",
+  authorizerEmail: "grace@acme.test", clientIpAddress: "203.0.113.7"
+})
+CREATE (pa)-[:AUTHORIZES]->(eba)
+CREATE (pas)-[:SIGNS]->(pa)
+// An earlier authorization of the same account, signed by someone else and
+// revoked: fetchAuthorizerInfoBatch returns both signatures
+CREATE (rpa:PaymentAuthorization {
+  entityId: "pa_1r", authorizationType: "ACH_DEBIT", authorizationVersion: "v1",
+  signedDate: "2023-01-09", isRevoked: true, revokedDate: "2023-01-10"
+})
+CREATE (rpas:PaymentAuthorizationSignature {
+  entityId: "pas_1r", authorizerFirstName: "Edsger", authorizerLastName: "Dijkstra",
+  authorizerEmail: "edsger@acme.test", clientIpAddress: "192.0.2.44"
+})
+CREATE (rpa)-[:AUTHORIZES]->(eba)
+CREATE (rpas)-[:SIGNS]->(rpa)
+CREATE (dpa:PaymentAuthorization {
+  entityId: "pa_0", authorizationType: "ACH_DEBIT", authorizationVersion: "v1",
+  signedDate: "2022-05-01", isRevoked: false
+})
+CREATE (dpas:PaymentAuthorizationSignature {
+  entityId: "pas_0", authorizerFirstName: "Grace", authorizerLastName: "Hopper",
+  authorizerEmail: "grace@acme.test", clientIpAddress: "198.51.100.4"
+})
+CREATE (dpa)-[:AUTHORIZES]->(deba)
+CREATE (dpas)-[:SIGNS]->(dpa);
+
+CREATE (wc1:WorkerCounterparty {employerId: "er_test1", workerId: "wrk_test1"})
+CREATE (wba1:WorkerBankAccount {
+  bankName: "Chase", accountNumber: "000123456789", routingNumber: "021000021",
+  partyName: "Ada Lovelace", createdDate: "2023-02-01"
+})
+CREATE (wc1)-[:HAS_BANK_ACCOUNT]->(wba1)
+CREATE (wc2:WorkerCounterparty {employerId: "er_test1", workerId: "wrk_test2"})
+CREATE (wba2:WorkerBankAccount {
+  bankName: "Wells Fargo", accountNumber: "000555444333", routingNumber: "121042882",
+  partyName: "Alan Turing", createdDate: "2023-08-01"
+})
+CREATE (dwba2:DeletedWorkerBankAccount {
+  bankName: "State Street", accountNumber: "000987654321", routingNumber: "011000015",
+  partyName: "Alan Turing", createdDate: "2023-02-01"
+})
+CREATE (wc2)-[:HAS_BANK_ACCOUNT]->(wba2)
+CREATE (wc2)-[:HAS_BANK_ACCOUNT]->(dwba2);
+
+// A worker at another employer paid into Ada's account and, before that,
+// into Acme's funding account: see find-shared-bank-accounts
+CREATE (wc3:WorkerCounterparty {employerId: "er_test2", workerId: "wrk_other"})
+CREATE (wba3:WorkerBankAccount {
+  bankName: "Chase", accountNumber: "000123456789", routingNumber: "021000021",
+  partyName: "Ada King", createdDate: "2023-06-01"
+})
+CREATE (dwba3:DeletedWorkerBankAccount {
+  bankName: "First Test Bank", accountNumber: "555000111", routingNumber: "121000248",
+  partyName: "Ada King", createdDate: "2023-03-01"
+})
+CREATE (wc3)-[:HAS_BANK_ACCOUNT]->(wba3)
+CREATE (wc3)-[:HAS_BANK_ACCOUNT]->(dwba3);
+
+// Another employer whose account was authorized from Grace's IP: see
+// analyze-authorizer-ips
+CREATE (ec2:EmployerCounterparty {employerId: "er_test2"})
+CREATE (eba2:EmployerBankAccount {
+  entityId: "eba_2", bankName: "Second Test Bank", accountNumber: "777000222",
+  routingNumber: "021000021", partyName: "Other Corp", createdDate: "2023-04-01"
+})
+CREATE (ec2)-[:HAS_BANK_ACCOUNT]->(eba2)
+CREATE (pa2:PaymentAuthorization {
+  entityId: "pa_2", authorizationType: "ACH_DEBIT", authorizationVersion: "v2",
+  signedDate: "2023-04-01", isRevoked: false
+})
+CREATE (pas2:PaymentAuthorizationSignature {
+  entityId: "pas_2", authorizerFirstName: "Mallory", authorizerLastName: "Doe",
+  authorizerEmail: "mallory@other.test", clientIpAddress: "203.0.113.7"
+})
+CREATE (pa2)-[:AUTHORIZES]->(eba2)
+CREATE (pas2)-[:SIGNS]->(pa2);
@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import * as path from "path";
+import { auth, driver } from "neo4j-driver";
+import { NEO4J_SEED_PATH } from "./fake-neo4j";
+
+export interface Neo4jTestDatabase {
+  env: Record<string, string>;
+  // False for the fake driver, which reads the seed by itself
+  isLive: boolean;
+}
+
+/**
+ * Returns the Neo4j test database from NEO4J_TEST_URI, or the fake driver
+ * of fake-neo4j.ts, preloaded into the CLI, when it is not configured
+ */
+export function getNeo4jTestDatabase(): Neo4jTestDatabase {
+  const uri = process.env.NEO4J_TEST_URI;
+  if (!uri) {
+    return {
+      env: {
+        NODE_OPTIONS: `--require ${path.join(__dirname, "fake-neo4j.js")}`,
+        FAKE_NEO4J: "1",
+        NEO4J_URI: "bolt://fake-neo4j.invalid",
+        NEO4J_PASSWORD: "fake",
+      },
+      isLive: false,
+    };
+  }
+  return {
+    isLive: true,
+    env: {
+      NEO4J_URI: uri,
+      NEO4J_USERNAME: process.env.NEO4J_TEST_USERNAME || "neo4j",
+      NEO4J_PASSWORD: process.env.NEO4J_TEST_PASSWORD || "",
+    },
+  };
+}
+
+/**
+ * Empties the test database and loads neo4j-seed.cypher into it. Never point
+ * NEO4J_TEST_URI at a database holding real data. Does nothing for the fake
+ * driver.
+ */
+export async function seedNeo4j(database: Neo4jTestDatabase): Promise<void> {
+  if (!database.isLive) {
+    return;
+  }
+  const statements = fs
+    .readFileSync(NEO4J_SEED_PATH, "utf8")
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("//"))
+    .join("\n")
+    .split(";")
+    .map((statement) => statement.trim())
+    .filter((statement) => statement.length > 0);
+
+  const testDriver = driver(
+    database.env.NEO4J_URI,
+    auth.basic(database.env.NEO4J_USERNAME, database.env.NEO4J_PASSWORD)
+  );
+  const session = testDriver.session();
+  try {
+    await session.run("MATCH (n) DETACH DELETE n");
+    for (const statement of statements) {
+      await session.run(statement);
+    }
+  } finally {
+    await session.close();
+    await testDriver.close();
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Data served by the fake APIs and seeded into the Neo4j test database.
+ * One employer with two workers, paid by one payroll run.
+ */
+
+export const EMPLOYER_ID = "er_test1";
+export const PAYROLL_RUN_ID = "payrun_test1";
+export const WORKER_IDS = ["wrk_test1", "wrk_test2"];
+
+export const employers = [
+  {
+    id: EMPLOYER_ID,
+    businessName: "Acme Corp",
+    legalName: "Acme Corporation LLC",
+    incorporationDate: "2015-02-03",
+    incorporationState: "DE",
+    businessContact: { email: "finance@acme.test", phoneNumber: "+14155550100" },
+    controllingPersons: [
+      {
+        id: "cp_owner",
+        firstName: "Grace",
+        lastName: "Hopper",
+        title: "CEO",
+        roles: ["OWNER", "OFFICER"],
+        ownershipPercentage: 60,
+        dateOfBirth: "1970-12-09",
+        address: {
+          addressLine1: "5 Pine St",
+          addressLine2: "",
+          locality: "Palo Alto",
+          postalCode: "94301",
+          administrativeArea: "ca",
+          country: "US",
+        },
+      },
+      {
+        id: "cp_officer",
+        firstName: "Edsger",
+        lastName: "Dijkstra",
+        title: "CFO",
+        roles: ["OFFICER"],
+        ownershipPercentage: null,
+        dateOfBirth: null,
+        address: null,
+      },
+    ],
+    taxesSetupByJurisdiction: [
+      {
+        jurisdiction: { id: "key:jurisdiction:us:ca", name: "California" },
+        taxIdentifiers: [
+          {
+            id: "tid_state",
+            type: { id: "key:taxid:us:ca:sit", name: "CA SIT" },
+            value: "111-2222-3",
+          },
+          {
+            id: "tid_ett",
+            type: { id: "key:taxid:us:ca:ett", name: "CA ETT" },
+            value: null,
+          },
+        ],
+      },
+      {
+        jurisdiction: { id: "key:jurisdiction:us:fed", name: "Federal" },
+        taxIdentifiers: [
+          {
+            id: "tid_fein",
+            type: { id: "key:taxid:us:fein", name: "FEIN" },
+            value: "12-3456789",
+          },
+        ],
+      },
+    ],
+    filingAddress: {
+      address: {
+        addressLine1: "1 Market St",
+        addressLine2: "Suite 100",
+        administrativeArea: "ca",
+        locality: "San Francisco",
+        postalCode: "94105",
+      },
+    },
+  },
+];
+
+export const workers = [
+  {
+    id: "wrk_test1",
+    firstName: "Ada",
+    lastName: "Lovelace",
+    employmentStatus: "ACTIVE",
+    hireDate: "2021-03-01",
+    employment: {
+      status: "ACTIVE",
+      hireDate: "2021-03-01",
+      terminationDate: null,
+      jobTitle: "Analyst",
+      payRate: { amount: "45.50", currency: "USD", period: "HOUR" },
+    },
+    payStatements: [
+      { payDate: "2024-05-31", grossPay: "1820.10", netPay: "1400.05" },
+      { payDate: "2024-05-15", grossPay: "1820.20", netPay: "1400.05" },
+    ],
+    employer: { id: EMPLOYER_ID, businessName: "Acme Corp" },
+    personalInformation: {
+      dateOfBirth: "1990-04-12",
+      homeAddress: {
+        id: "addr_1",
+        address: {
+          addressLine1: "10 Elm St",
+          addressLine2: "",
+          locality: "Oakland",
+          postalCode: "94607",
+          administrativeArea: "CA",
+          country: "US",
+        },
+      },
+      governmentIdentifiers: [
+        {
+          id: "gov_1",
+          value: "123-45-6789",
+          type: { id: "key:wrgovid:us:ssn", name: "SSN" },
+        },
+      ],
+    },
+  },
+  {
+    id: "wrk_test2",
+    firstName: "Alan",
+    lastName: "Turing",
+    employmentStatus: "TERMINATED",
+    hireDate: "2018-09-17",
+    employment: {
+      status: "TERMINATED",
+      hireDate: "2018-09-17",
+      terminationDate: "2024-01-31",
+      jobTitle: null,
+      payRate: null,
+    },
+    payStatements: [],
+    employer: { id: EMPLOYER_ID, businessName: "Acme Corp" },
+    personalInformation: {
+      dateOfBirth: "1985-06-23",
+      homeAddress: {
+        id: "addr_2",
+        address: {
+          addressLine1: "20 Oak Ave",
+          addressLine2: "Apt 3",
+          locality: "Berkeley",
+          postalCode: "94704",
+          administrativeArea: "CA",
+          country: "US",
+        },
+      },
+      governmentIdentifiers: [],
+    },
+  },
+];
+
+export const payrollRuns = [
+  { id: PAYROLL_RUN_ID, employer: { id: EMPLOYER_ID } },
+  // Its payment order below is tagged with another employer
+  { id: "payrun_test2", employer: { id: EMPLOYER_ID } },
+];
+
+function paymentOrder(
+  id: string,
+  fields: {
+    amount: number;
+    status: string;
+    achTransferId?: string;
+    metadata?: Record<string, string>;
+    counterpartyId?: string;
+    purpose?: string;
+    direction?: string;
+    effectiveDate?: string;
+  }
+) {
+  return {
+    id,
+    object: "payment_order",
+    live_mode: false,
+    type: "ach",
+    subtype: null,
+    purpose: fields.purpose || null,
+    status: fields.status,
+    amount: fields.amount,
+    direction: fields.direction || "credit",
+    effective_date: fields.effectiveDate || "2024-03-15",
+    counterparty_id: fields.counterpartyId || null,
+    receiving_account_id: null,
+    metadata: {
+      payrollRunId: PAYROLL_RUN_ID,
+      employerId: EMPLOYER_ID,
+      ...fields.metadata,
+    },
+    reference_numbers: fields.achTransferId
+      ? [
+          {
+            id: `ref_${id}`,
+            object: "payment_reference",
+            live_mode: false,
+            reference_number: fields.achTransferId,
+            reference_number_type: "bnk_dev_transfer_id",
+            referenceable_id: id,
+            referenceable_type: "payment_order",
+            created_at: "2024-03-14T00:00:00Z",
+            updated_at: "2024-03-14T00:00:00Z",
+          },
+        ]
+      : [],
+  };
+}
+
+export const paymentOrders = [
+  paymentOrder("po_1", {
+    amount: 150000,
+    status: "completed",
+    achTransferId: "ach_1",
+    metadata: { workerId: "wrk_test1" },
+  }),
+  paymentOrder("po_2", {
+    amount: 98000,
+    status: "sent",
+    achTransferId: "ach_2",
+    counterpartyId: "cp_2",
+  }),
+  paymentOrder("po_3", { amount: 5000, status: "cancelled", achTransferId: "ach_3" }),
+  paymentOrder("po_4", {
+    amount: 40000,
+    status: "completed",
+    achTransferId: "ach_4",
+    purpose: "TAX_TRANSFERS",
+  }),
+  // Payroll funding that failed two days after the bank account swap in
+  // neo4j-seed.cypher
+  paymentOrder("po_debit_1", {
+    amount: 2500000,
+    status: "failed",
+    direction: "debit",
+    effectiveDate: "2023-01-12",
+    metadata: { payrollRunId: "payrun_test0" },
+  }),
+  paymentOrder("po_mismatch_1", {
+    amount: 1000,
+    status: "completed",
+    metadata: { payrollRunId: "payrun_test2", employerId: "er_other" },
+  }),
+];
+
+export const counterparties = [
+  {
+    id: "cp_2",
+    object: "counterparty",
+    name: "Alan Turing",
+    email: null,
+    metadata: { workerId: "wrk_test2" },
+  },
+];
+
+export const achTransfers = [
+  {
+    id: "ach_1",
+    amount: 150000,
+    transaction_id: "txn_1",
+    status: "submitted",
+    statement_descriptor: "PAYROLL",
+    company_name: "Acme Corp",
+    individual_name: "Ada Lovelace",
+    account_number: "000123456789",
+    routing_number: "021000021",
+    created_at: "2024-03-14T10:00:00Z",
+  },
+  {
+    id: "ach_2",
+    amount: 98000,
+    transaction_id: "txn_2",
+    status: "submitted",
+    statement_descriptor: "PAYROLL",
+    company_name: "Acme Corp",
+    individual_name: "Alan Turing",
+    account_number: "000987654321",
+    routing_number: "011000015",
+    created_at: "2024-03-14T10:00:00Z",
+  },
+];
+
+export const transactions = [
+  {
+    id: "txn_1",
+    account_id: "account_1",
+    amount: -150000,
+    currency: "USD",
+    created_at: "2024-03-14T10:00:05Z",
+    description: "ACH Transfer to Ada Lovelace",
+    route_id: "route_1",
+    route_type: "account_number",
+    source: { category: "ach_transfer_intention" },
+  },
+  {
+    id: "txn_2",
+    account_id: "account_1",
+    amount: -98000,
+    currency: "USD",
+    created_at: "2024-03-14T10:00:06Z",
+    description: "ACH Transfer to Alan Turing",
+    route_id: "route_1",
+    route_type: "account_number",
+    source: { category: "ach_transfer_intention" },
+  },
+];
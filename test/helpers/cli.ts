@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFile } from "child_process";
+
+export interface CliResult {
+  code: number;
+  output: string;
+}
+
+// Compiled CLI entry point, next to this file in the test build
+const CLI_PATH = path.join(__dirname, "..", "..", "src", "index.js");
+
+/**
+ * Runs the CLI in a child process with only the given environment, so the
+ * developer's .env never leaks into a test
+ */
+export function runCli(
+  args: string[],
+  env: Record<string, string>,
+  cwd: string
+): Promise<CliResult> {
+  return new Promise((resolve) => {
+    execFile(
+      process.execPath,
+      [CLI_PATH, ...args],
+      {
+        cwd,
+        env: { PATH: process.env.PATH || "", LOG_MODE: "INFO", ...env },
+        timeout: 60000,
+      },
+      (error, stdout, stderr) => {
+        const code = error ? (typeof error.code === "number" ? error.code : 1) : 0;
+        resolve({ code, output: stdout + stderr });
+      }
+    );
+  });
+}
+
+export function createTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "uar-test-"));
+}
+
+/**
+ * Parses a CSV file into one object per row keyed by the header titles
+ */
+export function readCsv(filePath: string): Array<Record<string, string>> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const text = fs.readFileSync(filePath, "utf8");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [header = [], ...records] = rows;
+  return records.map((values) => {
+    const record: Record<string, string> = {};
+    header.forEach((title, index) => (record[title] = values[index] ?? ""));
+    return record;
+  });
+}
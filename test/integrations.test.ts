@@ -0,0 +1,601 @@
+import { after, before, describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as path from "path";
+import { AxiosError } from "axios";
+import * as neo4j from "neo4j-driver";
+import { Pool } from "pg";
+import {
+  createHttpClient,
+  getRetrySummary,
+  HttpClientConfig,
+} from "../src/integrations/http-client";
+import {
+  extractACHTransferId,
+  ModernTreasuryPaymentOrder,
+} from "../src/integrations/modern-treasury";
+import {
+  extractEin,
+  extractSsn,
+  extractTaxIdentifiers,
+  formatAddress,
+  summarizePayStatements,
+} from "../src/integrations/salsa-graphql";
+import {
+  AuthorizerInfo,
+  getCurrentAuthorizer,
+  WorkerBankAccount,
+} from "../src/integrations/salsa-neo4j";
+import { configureRecording, withNeo4jRecording } from "../src/integrations/recorder";
+import { loadAsnList, lookupIpAsns, lookupIpGeoLocations } from "../src/integrations/ip-data";
+import { parseFedAchDirectory } from "../src/integrations/fedach-directory";
+import {
+  closePostgresStore,
+  loadScope,
+  saveEntities,
+  STORE_TABLES,
+} from "../src/integrations/postgres-store";
+import {
+  configureEntityStore,
+  fetchListWithStore,
+  fetchPagesWithStore,
+  fetchWithStore,
+  getWorkerBankAccountStoreId,
+} from "../src/services/entity-store";
+import { createTempDir } from "./helpers/cli";
+import { employers, paymentOrders, workers } from "./fakes/seed-data";
+
+describe("extractACHTransferId", () => {
+  it("returns the Increase transfer ID from the payment references", () => {
+    const order = paymentOrders[0] as ModernTreasuryPaymentOrder;
+    assert.equal(extractACHTransferId(order), "ach_1");
+  });
+
+  it("ignores other reference types", () => {
+    const order = {
+      ...paymentOrders[0],
+      reference_numbers: [
+        { ...paymentOrders[0].reference_numbers[0], reference_number_type: "ach_trace_number" },
+      ],
+    } as ModernTreasuryPaymentOrder;
+    assert.equal(extractACHTransferId(order), null);
+  });
+
+  it("returns null without references", () => {
+    const order = { ...paymentOrders[0], reference_numbers: [] } as ModernTreasuryPaymentOrder;
+    assert.equal(extractACHTransferId(order), null);
+  });
+});
+
+describe("extractEin", () => {
+  it("finds the FEIN among other tax identifiers", () => {
+    assert.equal(extractEin(employers[0].taxesSetupByJurisdiction), "12-3456789");
+  });
+
+  it("skips a FEIN without value", () => {
+    const jurisdictions = [
+      {
+        taxIdentifiers: [
+          { id: "t1", type: { id: "key:taxid:us:fein", name: "FEIN" }, value: null },
+        ],
+      },
+    ];
+    assert.equal(extractEin(jurisdictions), "");
+  });
+
+  it("returns an empty string without jurisdictions", () => {
+    assert.equal(extractEin([]), "");
+  });
+});
+
+describe("extractTaxIdentifiers", () => {
+  it("lists every tax identifier with a value and its jurisdiction", () => {
+    assert.deepEqual(extractTaxIdentifiers(employers[0].taxesSetupByJurisdiction), [
+      {
+        jurisdiction: "California",
+        type: "key:taxid:us:ca:sit",
+        name: "CA SIT",
+        value: "111-2222-3",
+      },
+      {
+        jurisdiction: "Federal",
+        type: "key:taxid:us:fein",
+        name: "FEIN",
+        value: "12-3456789",
+      },
+    ]);
+  });
+});
+
+describe("formatAddress", () => {
+  it("maps locality and upper-cases the state", () => {
+    assert.deepEqual(formatAddress(employers[0].filingAddress.address), {
+      addressLine1: "1 Market St",
+      addressLine2: "Suite 100",
+      city: "San Francisco",
+      state: "CA",
+      postalCode: "94105",
+    });
+  });
+
+  it("returns empty fields without an address", () => {
+    assert.deepEqual(formatAddress(undefined), {
+      addressLine1: "",
+      city: "",
+      state: "",
+      postalCode: "",
+    });
+  });
+});
+
+describe("extractSsn", () => {
+  it("returns the SSN government identifier", () => {
+    assert.equal(
+      extractSsn(workers[0].personalInformation.governmentIdentifiers),
+      "123-45-6789"
+    );
+  });
+
+  it("returns undefined when the worker has no SSN", () => {
+    assert.equal(extractSsn(workers[1].personalInformation.governmentIdentifiers), undefined);
+    assert.equal(
+      extractSsn([{ id: "g", value: "X1", type: { id: "key:wrgovid:us:itin", name: "ITIN" } }]),
+      undefined
+    );
+  });
+});
+
+describe("summarizePayStatements", () => {
+  it("totals the pay in cents and keeps the pay date range", () => {
+    assert.deepEqual(
+      summarizePayStatements([
+        { payDate: "2024-05-31", grossPay: "0.10", netPay: "0.05" },
+        { payDate: "2024-05-15", grossPay: "0.20", netPay: "0.05" },
+      ]),
+      {
+        count: 2,
+        grossPay: "0.30",
+        netPay: "0.10",
+        firstPayDate: "2024-05-15",
+        lastPayDate: "2024-05-31",
+      }
+    );
+  });
+
+  it("returns zero totals without pay statements", () => {
+    assert.deepEqual(summarizePayStatements([]), {
+      count: 0,
+      grossPay: "0.00",
+      netPay: "0.00",
+      firstPayDate: "",
+      lastPayDate: "",
+    });
+  });
+});
+
+describe("getCurrentAuthorizer", () => {
+  function signature(authorizationId: string, signedDate: string, isRevoked: boolean): AuthorizerInfo {
+    return {
+      entityId: "eba_1",
+      signatureId: `sig_${authorizationId}`,
+      authorizationId,
+      authorizationType: "ACH_DEBIT",
+      authorizationVersion: "v1",
+      signedDate,
+      isRevoked,
+      revokedDate: null,
+      authorizerFirstName: "Grace",
+      authorizerLastName: "Hopper",
+      authorizerEmail: "grace@acme.test",
+      clientIpAddress: "203.0.113.7",
+    };
+  }
+
+  it("skips revoked authorizations signed later", () => {
+    const signatures = [
+      signature("pa_1", "2023-01-10", false),
+      signature("pa_2", "2023-02-01", true),
+    ];
+    assert.equal(getCurrentAuthorizer(signatures)?.authorizationId, "pa_1");
+  });
+
+  it("falls back to the latest revoked authorization", () => {
+    const signatures = [
+      signature("pa_1", "2023-01-10", true),
+      signature("pa_2", "2023-02-01", true),
+    ];
+    assert.equal(getCurrentAuthorizer(signatures)?.authorizationId, "pa_2");
+    assert.equal(getCurrentAuthorizer([]), undefined);
+  });
+});
+
+describe("withNeo4jRecording", () => {
+  after(() => configureRecording(null));
+
+  it("records and replays Neo4j values as plain values", async () => {
+    const properties = Object.create(null);
+    properties.workerId = "wrk_test1";
+    properties.accountCount = neo4j.int(2);
+    const row = {
+      count: neo4j.int(42),
+      largeCount: neo4j.int("9007199254740993"),
+      createdDate: new neo4j.types.Date(2024, 3, 15),
+      signedAt: new neo4j.types.DateTime(2024, 3, 15, 10, 30, 0, 0, 0),
+      worker: new neo4j.types.Node(neo4j.int(1), ["WorkerCounterparty"], properties, "4:1"),
+      account: new neo4j.types.Relationship(
+        neo4j.int(2), neo4j.int(1), neo4j.int(3), "HAS_BANK_ACCOUNT", { since: neo4j.int(2023) },
+        "5:2", "4:1", "4:3"
+      ),
+      holders: [{ workerId: null, isDeleted: false }],
+    };
+    const expected = {
+      count: 42,
+      largeCount: "9007199254740993",
+      createdDate: "2024-03-15",
+      signedAt: "2024-03-15T10:30:00Z",
+      worker: { workerId: "wrk_test1", accountCount: 2 },
+      account: { since: 2023 },
+      holders: [{ workerId: null, isDeleted: false }],
+    };
+    const dir = createTempDir();
+
+    configureRecording({ mode: "record", dir });
+    const recorded = await withNeo4jRecording("MATCH (n) RETURN n", {}, async () => [row]);
+    assert.deepEqual(recorded, [expected]);
+
+    configureRecording({ mode: "replay", dir });
+    const replayed = await withNeo4jRecording("MATCH (n) RETURN n", {}, async () =>
+      assert.fail("the recorded result should be replayed")
+    );
+    assert.deepEqual(replayed, [expected]);
+  });
+});
+
+describe("IP data files", () => {
+  function withDataFiles(files: Record<string, string>, test: () => Promise<void>) {
+    return async () => {
+      const dir = createTempDir();
+      const previous = { ...process.env };
+      for (const [variable, content] of Object.entries(files)) {
+        const filePath = path.join(dir, variable);
+        fs.writeFileSync(filePath, content);
+        process.env[variable] = filePath;
+      }
+      try {
+        await test();
+      } finally {
+        process.env = previous;
+      }
+    };
+  }
+
+  it(
+    "finds the country, region and ASN of IPv4 and IPv6 addresses",
+    withDataFiles(
+      {
+        IP_GEO_FILE: [
+          "1.0.0.0,1.0.0.255,AU",
+          '"8.8.8.0","8.8.8.255","NA","US","California","Mountain View","37.4","-122.1"',
+          "2606:4700::,2606:4700:ffff:ffff:ffff:ffff:ffff:ffff,US",
+        ].join("\n"),
+        IP_ASN_FILE: [
+          "8.8.8.0\t8.8.8.255\t15169\tUS\tGOOGLE",
+          "9.0.0.0\t9.255.255.255\t0\tNone\tNot routed",
+        ].join("\n"),
+      },
+      async () => {
+        const ips = ["8.8.8.8", "1.0.0.1", "2606:4700::1111", "9.1.1.1", "10.0.0.1"];
+        const locations = await lookupIpGeoLocations(ips);
+        assert.deepEqual(locations.get("8.8.8.8"), { country: "US", region: "California" });
+        assert.deepEqual(locations.get("1.0.0.1"), { country: "AU", region: "" });
+        assert.equal(locations.get("2606:4700::1111")?.country, "US");
+        assert.equal(locations.has("10.0.0.1"), false);
+
+        const asns = await lookupIpAsns(ips);
+        assert.deepEqual(asns.get("8.8.8.8"), { asn: 15169, name: "GOOGLE" });
+        assert.equal(asns.has("9.1.1.1"), false);
+      }
+    )
+  );
+
+  it(
+    "reads ASN lists with or without the AS prefix",
+    withDataFiles(
+      { IP_VPN_ASN_FILE: "# VPN providers\nAS9009 M247\n60068\n\n" },
+      async () => {
+        assert.deepEqual(Array.from(loadAsnList("vpnAsns")), [9009, 60068]);
+      }
+    )
+  );
+
+  it("skips a lookup whose file is not configured", async () => {
+    const previous = process.env.IP_GEO_FILE;
+    delete process.env.IP_GEO_FILE;
+    try {
+      assert.equal((await lookupIpGeoLocations(["8.8.8.8"])).size, 0);
+    } finally {
+      if (previous !== undefined) {
+        process.env.IP_GEO_FILE = previous;
+      }
+    }
+  });
+});
+
+describe("parseFedAchDirectory", () => {
+  it("reads the fixed-width FedACHdir.txt fields", () => {
+    const filePath = path.join(__dirname, "..", "..", "test", "fakes", "fedach", "FedACHdir.txt");
+    const directory = parseFedAchDirectory(fs.readFileSync(filePath, "utf8"));
+
+    assert.equal(directory.size, 4);
+    assert.deepEqual(directory.get("021000021"), {
+      routingNumber: "021000021",
+      newRoutingNumber: "",
+      customerName: "JPMORGAN CHASE BANK, NA",
+      city: "TAMPA",
+      state: "FL",
+    });
+  });
+
+  it("skips lines without a routing number", () => {
+    assert.equal(parseFedAchDirectory("\nnot a directory line\n").size, 0);
+  });
+});
+
+const postgresTestUrl = process.env.POSTGRES_TEST_URL;
+const skipWithoutPostgres = postgresTestUrl ? false : "POSTGRES_TEST_URL is not set";
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("Postgres store", { skip: skipWithoutPostgres }, () => {
+  // Drops the store tables of POSTGRES_TEST_URL: never point it at a
+  // database holding real data
+  before(async () => {
+    process.env.DATABASE_URL = postgresTestUrl;
+    const pool = new Pool({ connectionString: postgresTestUrl });
+    try {
+      const tables = [...Object.values(STORE_TABLES), "fetch_scopes"];
+      await pool.query(tables.map((table) => `DROP TABLE IF EXISTS ${table};`).join("\n"));
+    } finally {
+      await pool.end();
+    }
+  });
+
+  after(async () => {
+    configureEntityStore({});
+    await closePostgresStore();
+    delete process.env.DATABASE_URL;
+  });
+
+  const order = (id: string) => ({ id, data: { id } });
+
+  it("reads a listing back in fetch order once every page is saved", async () => {
+    const fetchedAt = new Date();
+    const scope = { scopeId: "payrun_order", partial: true };
+    await saveEntities("paymentOrder", [order("po_b"), order("po_a")], fetchedAt, scope);
+    await saveEntities("paymentOrder", [order("po_c")], fetchedAt, { ...scope, firstPosition: 2 });
+    assert.equal(await loadScope("paymentOrder", "payrun_order", new Date(0)), null);
+
+    await saveEntities("paymentOrder", [], fetchedAt, { scopeId: "payrun_order" });
+    assert.deepEqual(await loadScope("paymentOrder", "payrun_order", new Date(0)), [
+      { id: "po_b" },
+      { id: "po_a" },
+      { id: "po_c" },
+    ]);
+  });
+
+  it("records when a scope was listed and drops entities no longer listed", async () => {
+    const first = new Date(Date.now() - HOUR_MS);
+    await saveEntities("paymentOrder", [order("po_1"), order("po_2")], first, { scopeId: "payrun_relisted" });
+    const second = new Date();
+    await saveEntities("paymentOrder", [order("po_2")], second, { scopeId: "payrun_relisted" });
+
+    assert.deepEqual(await loadScope("paymentOrder", "payrun_relisted", first), [{ id: "po_2" }]);
+    // Listed before the window: the scope must be listed again
+    assert.equal(
+      await loadScope("paymentOrder", "payrun_relisted", new Date(second.getTime() + 1)),
+      null
+    );
+  });
+
+  it("reuses stored entities within --max-age and refetches them once it has passed", async () => {
+    configureEntityStore({ enabled: true, maxAgeMs: HOUR_MS });
+    let fetchCount = 0;
+    const fetch = async () => ({ id: "ach_stored", fetchCount: ++fetchCount });
+
+    assert.deepEqual(await fetchWithStore("achTransfer", "ach_stored", fetch), {
+      id: "ach_stored",
+      fetchCount: 1,
+    });
+    assert.equal((await fetchWithStore("achTransfer", "ach_stored", fetch)).fetchCount, 1);
+
+    // Stored two hours ago, older than the max age
+    await saveEntities(
+      "achTransfer",
+      [{ id: "ach_stored", data: { id: "ach_stored", fetchCount: 0 } }],
+      new Date(Date.now() - 2 * HOUR_MS)
+    );
+    assert.equal((await fetchWithStore("achTransfer", "ach_stored", fetch)).fetchCount, 2);
+    assert.equal(fetchCount, 2);
+  });
+
+  it("reuses a listing within --max-age in the order it was fetched", async () => {
+    configureEntityStore({ enabled: true, maxAgeMs: HOUR_MS });
+    let listCount = 0;
+    const list = async () => {
+      listCount++;
+      return [{ id: "eba_z" }, { id: "eba_a" }];
+    };
+
+    await fetchListWithStore("employerBankAccount", "er_listed", list, (account) => account.id);
+    const stored = await fetchListWithStore(
+      "employerBankAccount",
+      "er_listed",
+      list,
+      (account) => account.id
+    );
+    assert.deepEqual(stored, [{ id: "eba_z" }, { id: "eba_a" }]);
+    assert.equal(listCount, 1);
+  });
+
+  it("never reuses a paged listing that failed before its last page", async () => {
+    configureEntityStore({ enabled: true, maxAgeMs: HOUR_MS });
+    const pages = [[order("po_p1").data], [order("po_p2").data]];
+    const received: string[] = [];
+    const onPage = (entities: Array<{ id: string }>) => {
+      received.push(...entities.map((entity) => entity.id));
+    };
+
+    await assert.rejects(
+      fetchPagesWithStore(
+        "paymentOrder",
+        "payrun_paged",
+        async (handlePage) => {
+          await handlePage(pages[0]);
+          throw new Error("page 2 failed");
+        },
+        (entity) => entity.id,
+        onPage
+      ),
+      /page 2 failed/
+    );
+    assert.equal(await loadScope("paymentOrder", "payrun_paged", new Date(0)), null);
+
+    const fetchAll = async (handlePage: (entities: Array<{ id: string }>) => Promise<void>) => {
+      for (const page of pages) {
+        await handlePage(page);
+      }
+    };
+    await fetchPagesWithStore("paymentOrder", "payrun_paged", fetchAll, (entity) => entity.id, onPage);
+    received.length = 0;
+    await fetchPagesWithStore(
+      "paymentOrder",
+      "payrun_paged",
+      async () => assert.fail("the stored listing should be reused"),
+      (entity) => entity.id,
+      onPage
+    );
+    assert.deepEqual(received, ["po_p1", "po_p2"]);
+  });
+
+  it("stores the active and deleted copies of a worker bank account apart", async () => {
+    const copy = (isDeleted: boolean, createdDate: string): WorkerBankAccount => ({
+      employerId: "er_store",
+      workerId: "wrk_store",
+      bankName: "Chase",
+      accountNumber: "000123456789",
+      routingNumber: "021000021",
+      partyName: "Ada Lovelace",
+      createdDate,
+      isDeleted,
+    });
+    const accounts = [copy(false, "2024-01-01"), copy(true, "2023-01-01")];
+
+    configureEntityStore({ enabled: true });
+    await fetchListWithStore(
+      "workerBankAccount",
+      "er_store",
+      async () => accounts,
+      getWorkerBankAccountStoreId
+    );
+    assert.deepEqual(await loadScope("workerBankAccount", "er_store", new Date(0)), accounts);
+  });
+});
+
+describe("createHttpClient", () => {
+  // Responses the fake provider answers with, in order, per path; the last
+  // one repeats
+  const responses = new Map<string, Array<{ status: number; headers?: Record<string, string> }>>();
+  const received: Array<{ path: string; at: number }> = [];
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const requestPath = req.url || "";
+      received.push({ path: requestPath, at: Date.now() });
+      const queue = responses.get(requestPath) || [{ status: 200 }];
+      const response = queue.length > 1 ? queue.shift()! : queue[0];
+      res.writeHead(response.status, { "Content-Type": "application/json", ...response.headers });
+      res.end(JSON.stringify({ path: requestPath }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  const createClient = (provider: string, config: Partial<HttpClientConfig> = {}) =>
+    createHttpClient({
+      provider,
+      timeoutMs: 5000,
+      maxRetries: 3,
+      baseDelayMs: 1,
+      maxDelayMs: 5000,
+      requestsPerSecond: 0,
+      ...config,
+    });
+  const requestsTo = (requestPath: string) =>
+    received.filter((request) => request.path === requestPath);
+
+  it("retries a 429 after the Retry-After delay", async () => {
+    responses.set("/throttled", [
+      { status: 429, headers: { "Retry-After": "0.2" } },
+      { status: 200 },
+    ]);
+    const response = await createClient("Throttled").get(`${baseUrl}/throttled`);
+
+    assert.equal(response.status, 200);
+    const [first, second] = requestsTo("/throttled");
+    assert.equal(requestsTo("/throttled").length, 2);
+    assert.ok(second.at - first.at >= 190, `retried after ${second.at - first.at}ms`);
+    assert.deepEqual(getRetrySummary().Throttled, { retries: 1, exhausted: 0 });
+  });
+
+  it("holds back other requests while the provider is throttling", async () => {
+    responses.set("/paused", [
+      { status: 429, headers: { "Retry-After": "0.3" } },
+      { status: 200 },
+    ]);
+    const client = createClient("Paused");
+    const throttled = client.get(`${baseUrl}/paused`);
+    while (requestsTo("/paused").length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await client.get(`${baseUrl}/other`);
+    await throttled;
+
+    const gap = requestsTo("/other")[0].at - requestsTo("/paused")[0].at;
+    assert.ok(gap >= 290, `sent ${gap}ms after the 429`);
+  });
+
+  it("gives up on a persistent 5xx after maxRetries", async () => {
+    responses.set("/unavailable", [{ status: 503 }]);
+    await assert.rejects(
+      createClient("Unavailable", { maxRetries: 2 }).get(`${baseUrl}/unavailable`),
+      (error: AxiosError) => error.response?.status === 503
+    );
+
+    assert.equal(requestsTo("/unavailable").length, 3);
+    assert.deepEqual(getRetrySummary().Unavailable, { retries: 2, exhausted: 1 });
+  });
+
+  it("retries network errors but not client errors", async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const closedUrl = `http://127.0.0.1:${(closed.address() as AddressInfo).port}`;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    await assert.rejects(
+      createClient("Refused", { maxRetries: 2 }).get(closedUrl),
+      (error: AxiosError) => error.code === "ECONNREFUSED"
+    );
+    assert.deepEqual(getRetrySummary().Refused, { retries: 2, exhausted: 1 });
+
+    responses.set("/missing", [{ status: 404 }]);
+    await assert.rejects(createClient("Missing").get(`${baseUrl}/missing`));
+    assert.equal(requestsTo("/missing").length, 1);
+    assert.equal(getRetrySummary().Missing, undefined);
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  buildBankAccountTimeline,
+  DEFAULT_CHURN_OPTIONS,
+  detectChurn,
+} from "../src/services/bank-account-timeline";
+import { classifySharedAccount } from "../src/services/shared-bank-accounts";
+import { ClientIpAnalysis, getIpFlags } from "../src/services/authorizer-ips";
+import { bankNamesMatch, isValidRoutingNumber } from "../src/services/routing-numbers";
+import { classifyIp } from "../src/utils/ip-address";
+import { BankAccountHolder, EmployerBankAccount } from "../src/integrations/salsa-neo4j";
+import { paymentOrders } from "./fakes/seed-data";
+
+function account(
+  id: string,
+  createdDate: string,
+  fields: Partial<EmployerBankAccount> = {}
+): EmployerBankAccount {
+  return {
+    id,
+    employerId: "er_test1",
+    bankName: "Test Bank",
+    accountNumber: "555000111",
+    routingNumber: "121000248",
+    partyName: "Acme Corp",
+    createdDate,
+    isDeleted: false,
+    ...fields,
+  };
+}
+
+describe("buildBankAccountTimeline", () => {
+  it("infers the deletion of a replaced account from its successor", () => {
+    const events = buildBankAccountTimeline("er_test1", [
+      account("eba_1", "2023-01-10"),
+      account("eba_0", "2022-05-01", { isDeleted: true }),
+    ]);
+
+    assert.deepEqual(
+      events.map((event) => [event.date, event.type, event.account.id, event.relatedAccountId, event.dateInferred]),
+      [
+        ["2022-05-01", "ADDED", "eba_0", "", false],
+        ["2023-01-10", "REPLACED", "eba_1", "eba_0", false],
+        ["2023-01-10", "DELETED", "eba_0", "eba_1", true],
+      ]
+    );
+  });
+
+  it("keeps a deletion far from any new account on its own", () => {
+    const events = buildBankAccountTimeline("er_test1", [
+      account("eba_0", "2022-05-01", { isDeleted: true, deletedDate: "2022-06-01" }),
+      account("eba_1", "2023-01-10"),
+      account("eba_2", "2022-05-02", { isDeleted: true }),
+    ]);
+
+    assert.deepEqual(
+      events.map((event) => [event.date, event.type, event.account.id]),
+      [
+        ["2022-05-01", "ADDED", "eba_0"],
+        ["2022-05-02", "ADDED", "eba_2"],
+        ["2022-06-01", "DELETED", "eba_0"],
+        ["2023-01-10", "REPLACED", "eba_1"],
+        ["2023-01-10", "DELETED", "eba_2"],
+      ]
+    );
+  });
+
+  it("orders undated accounts after the dated ones", () => {
+    const events = buildBankAccountTimeline("er_test1", [
+      account("eba_x", ""),
+      account("eba_1", "2023-01-10"),
+      account("eba_y", "not a date"),
+      account("eba_0", "2022-05-01"),
+    ]);
+
+    assert.deepEqual(
+      events.map((event) => [event.date, event.account.id]),
+      [
+        ["2022-05-01", "eba_0"],
+        ["2023-01-10", "eba_1"],
+        ["", "eba_x"],
+        ["not a date", "eba_y"],
+      ]
+    );
+  });
+});
+
+describe("detectChurn", () => {
+  const debit = paymentOrders.find((order) => order.id === "po_debit_1")!;
+
+  it("flags several changes within the window", () => {
+    const events = buildBankAccountTimeline("er_test1", [
+      account("eba_0", "2023-01-01", { isDeleted: true }),
+      account("eba_1", "2023-01-05", { isDeleted: true }),
+      account("eba_2", "2023-01-20"),
+      account("eba_3", "2023-06-01"),
+    ]);
+    const alerts = detectChurn("er_test1", events, []);
+
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0].pattern, "RAPID_CHANGES");
+    assert.deepEqual(alerts[0].accountIds, ["eba_0", "eba_1", "eba_2"]);
+    assert.equal(alerts[0].windowStart, "2023-01-01");
+    assert.equal(alerts[0].windowEnd, "2023-01-20");
+  });
+
+  it("flags a swap shortly before a failed debit", () => {
+    const events = buildBankAccountTimeline("er_test1", [
+      account("eba_0", "2022-05-01", { isDeleted: true }),
+      account("eba_1", "2023-01-10"),
+    ]);
+    const alerts = detectChurn("er_test1", events, [debit]);
+
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0].pattern, "CHANGE_BEFORE_FAILED_DEBIT");
+    assert.deepEqual(alerts[0].accountIds, ["eba_1"]);
+    assert.equal(alerts[0].debit?.id, "po_debit_1");
+  });
+
+  it("ignores small successful debits and changes outside the debit window", () => {
+    const events = buildBankAccountTimeline("er_test1", [account("eba_1", "2023-01-10")]);
+    const small = { ...debit, status: "completed", amount: 1000 };
+    const late = { ...debit, effective_date: "2023-02-10" };
+
+    assert.deepEqual(detectChurn("er_test1", events, [small, late]), []);
+    assert.equal(
+      detectChurn("er_test1", events, [{ ...small, amount: 1000000 }])[0].pattern,
+      "CHANGE_BEFORE_LARGE_DEBIT"
+    );
+    assert.equal(
+      detectChurn("er_test1", events, [late], { ...DEFAULT_CHURN_OPTIONS, debitWindowDays: 31 }).length,
+      1
+    );
+  });
+});
+
+function holder(
+  holderType: "worker" | "employer",
+  employerId: string,
+  workerId: string | null,
+  fields: Partial<BankAccountHolder> = {}
+): BankAccountHolder {
+  return {
+    holderType,
+    employerId,
+    workerId,
+    bankAccountId: null,
+    bankName: "Chase",
+    partyName: "Ada Lovelace",
+    createdDate: "2023-02-01",
+    isDeleted: false,
+    authorizerFirstName: null,
+    authorizerLastName: null,
+    authorizerEmail: null,
+    ...fields,
+  };
+}
+
+describe("classifySharedAccount", () => {
+  it("flags workers of the same and of different employers", () => {
+    assert.deepEqual(
+      classifySharedAccount([
+        holder("worker", "er_test1", "wrk_test1"),
+        holder("worker", "er_test1", "wrk_test2"),
+      ]),
+      ["MULTIPLE_WORKERS"]
+    );
+    assert.deepEqual(
+      classifySharedAccount([
+        holder("worker", "er_test1", "wrk_test1"),
+        holder("worker", "er_test2", "wrk_other"),
+      ]),
+      ["MULTIPLE_WORKERS", "WORKERS_AT_DIFFERENT_EMPLOYERS"]
+    );
+  });
+
+  it("flags a worker paid into an employer account", () => {
+    assert.deepEqual(
+      classifySharedAccount([
+        holder("employer", "er_test1", null, { bankAccountId: "eba_1" }),
+        holder("worker", "er_test2", "wrk_other", { isDeleted: true }),
+      ]),
+      ["WORKER_AND_EMPLOYER"]
+    );
+  });
+
+  it("flags a worker named like the authorizer of the employer account", () => {
+    const employerAccount = holder("employer", "er_test1", null, {
+      bankAccountId: "eba_1",
+      partyName: "Acme Corp",
+      authorizerFirstName: "Grace",
+      authorizerLastName: "Hopper",
+    });
+    assert.deepEqual(
+      classifySharedAccount([
+        employerAccount,
+        holder("worker", "er_test1", "wrk_grace", { partyName: " grace  HOPPER" }),
+      ]),
+      ["WORKER_AND_EMPLOYER", "WORKER_AND_AUTHORIZER"]
+    );
+    assert.deepEqual(
+      classifySharedAccount([employerAccount, holder("worker", "er_test1", "wrk_test1")]),
+      ["WORKER_AND_EMPLOYER"]
+    );
+  });
+
+  it("ignores a worker holding the same account twice and employers alone", () => {
+    assert.deepEqual(
+      classifySharedAccount([
+        holder("worker", "er_test1", "wrk_test1", { isDeleted: true }),
+        holder("worker", "er_test1", "wrk_test1"),
+      ]),
+      []
+    );
+    assert.deepEqual(
+      classifySharedAccount([
+        holder("employer", "er_test1", null, { bankAccountId: "eba_1" }),
+        holder("employer", "er_test1", null, { bankAccountId: "eba_2" }),
+      ]),
+      []
+    );
+  });
+
+  it("flags employers funding from the same account", () => {
+    assert.deepEqual(
+      classifySharedAccount([
+        holder("employer", "er_test1", null, { bankAccountId: "eba_1" }),
+        holder("employer", "er_test2", null, { bankAccountId: "eba_2", isDeleted: true }),
+      ]),
+      ["EMPLOYERS_SHARING"]
+    );
+  });
+});
+
+describe("getIpFlags", () => {
+  function analysis(address: string, fields: Partial<ClientIpAnalysis> = {}): ClientIpAnalysis {
+    return {
+      ip: classifyIp(address),
+      isDatacenter: false,
+      isVpn: false,
+      employerIds: ["er_test1"],
+      ...fields,
+    };
+  }
+
+  it("does not flag a public IP used by one employer", () => {
+    assert.deepEqual(getIpFlags(analysis("8.8.8.8")), []);
+  });
+
+  it("flags private, hosting and VPN IPs and IPs shared across employers", () => {
+    assert.deepEqual(getIpFlags(analysis("192.168.1.20")), ["NOT_PUBLIC"]);
+    assert.deepEqual(
+      getIpFlags(
+        analysis("8.8.8.8", {
+          isDatacenter: true,
+          isVpn: true,
+          employerIds: ["er_test1", "er_test2"],
+        })
+      ),
+      ["DATACENTER", "VPN", "SHARED_ACROSS_EMPLOYERS"]
+    );
+  });
+});
+
+describe("isValidRoutingNumber", () => {
+  it("runs the ABA checksum", () => {
+    assert.equal(isValidRoutingNumber("021000021"), true);
+    assert.equal(isValidRoutingNumber(" 121042882 "), true);
+    assert.equal(isValidRoutingNumber("021000022"), false);
+  });
+
+  it("rejects routing numbers that are not nine digits", () => {
+    assert.equal(isValidRoutingNumber("21000021"), false);
+    assert.equal(isValidRoutingNumber("02100002a"), false);
+    assert.equal(isValidRoutingNumber(null), false);
+  });
+});
+
+describe("bankNamesMatch", () => {
+  it("matches short names and legal suffixes", () => {
+    assert.equal(bankNamesMatch("Chase", "JPMORGAN CHASE BANK, NA"), true);
+    assert.equal(bankNamesMatch("Bank of America", "BANK OF AMERICA, N.A."), true);
+    assert.equal(bankNamesMatch("Wells Fargo Bank N.A.", "WELLS FARGO BANK NA"), true);
+  });
+
+  it("flags names of other institutions", () => {
+    assert.equal(bankNamesMatch("First Test Bank", "FIRST REPUBLIC BANK"), false);
+    assert.equal(bankNamesMatch("State Street", "FEDERAL RESERVE BANK"), false);
+  });
+
+  it("cannot tell from names made only of generic words", () => {
+    assert.equal(bankNamesMatch("The Bank", "FIRST REPUBLIC BANK"), null);
+    assert.equal(bankNamesMatch("Chase", "NATIONAL BANK & TRUST CO"), null);
+    assert.equal(bankNamesMatch("", "JPMORGAN CHASE BANK, NA"), null);
+  });
+});
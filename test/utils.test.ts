@@ -0,0 +1,195 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import { classifyIp, getCidrRange, toIpKey } from "../src/utils/ip-address";
+import { decryptBuffer, encryptBuffer } from "../src/utils/encryption";
+import { createConcurrencyLimit, mapWithConcurrency } from "../src/utils/concurrency";
+import { openDataset } from "../src/utils/output";
+import { createTempDir } from "./helpers/cli";
+
+describe("classifyIp", () => {
+  it("classifies IPv4 addresses", () => {
+    const classifications = [
+      "8.8.8.8",
+      "10.1.2.3",
+      "172.31.255.255",
+      "172.32.0.1",
+      "100.64.0.1",
+      "127.0.0.1",
+      "169.254.10.1",
+      "203.0.113.7",
+      "224.0.0.1",
+      "255.255.255.255",
+    ].map((address) => classifyIp(address).classification);
+
+    assert.deepEqual(classifications, [
+      "public",
+      "private",
+      "private",
+      "public",
+      "carrier-grade-nat",
+      "loopback",
+      "link-local",
+      "reserved",
+      "multicast",
+      "reserved",
+    ]);
+  });
+
+  it("classifies IPv6 addresses, IPv4-mapped ones as IPv4", () => {
+    assert.deepEqual(classifyIp("2606:4700::1111"), {
+      address: "2606:4700::1111",
+      version: 6,
+      key: "26064700000000000000000000001111",
+      classification: "public",
+    });
+    assert.equal(classifyIp("::1").classification, "loopback");
+    assert.equal(classifyIp("fd12:3456::1").classification, "private");
+    assert.equal(classifyIp("fe80::1").classification, "link-local");
+    assert.equal(classifyIp("2001:db8::42").classification, "reserved");
+    assert.equal(classifyIp("::ffff:10.0.0.1").classification, "private");
+    assert.equal(classifyIp("::ffff:8.8.8.8").key, toIpKey("8.8.8.8"));
+  });
+
+  it("rejects invalid addresses", () => {
+    assert.deepEqual(classifyIp(" not-an-ip "), {
+      address: "not-an-ip",
+      version: 0,
+      key: "",
+      classification: "invalid",
+    });
+    assert.equal(classifyIp("256.1.1.1").classification, "invalid");
+  });
+});
+
+describe("getCidrRange", () => {
+  it("returns the first and last key of IPv4 and IPv6 blocks", () => {
+    assert.deepEqual(getCidrRange("100.64.0.0/10"), {
+      start: toIpKey("100.64.0.0"),
+      end: toIpKey("100.127.255.255"),
+    });
+    assert.deepEqual(getCidrRange("fe80::/10"), {
+      start: toIpKey("fe80::"),
+      end: toIpKey("febf:ffff:ffff:ffff:ffff:ffff:ffff:ffff"),
+    });
+  });
+
+  it("orders keys by address", () => {
+    assert.ok(toIpKey("9.255.255.255") < toIpKey("10.0.0.0"));
+    assert.ok(toIpKey("255.255.255.255") < toIpKey("2001:db8::"));
+  });
+});
+
+describe("decryptBuffer", () => {
+  const MAGIC_LENGTH = "UARENC1\n".length;
+
+  /**
+   * Rewrites the JSON header of an encrypted buffer
+   */
+  function withHeader(data: Buffer, update: (header: any) => void): Buffer {
+    const headerLength = data.readUInt32BE(MAGIC_LENGTH);
+    const headerStart = MAGIC_LENGTH + 4;
+    const header = JSON.parse(data.subarray(headerStart, headerStart + headerLength).toString("utf8"));
+    update(header);
+    const headerBytes = Buffer.from(JSON.stringify(header), "utf8");
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(headerBytes.length, 0);
+    return Buffer.concat([
+      data.subarray(0, MAGIC_LENGTH),
+      length,
+      headerBytes,
+      data.subarray(headerStart + headerLength),
+    ]);
+  }
+
+  it("round-trips a passphrase-encrypted buffer", () => {
+    const encrypted = encryptBuffer(Buffer.from("ssn,123-45-6789"), { passphrase: "secret" });
+    assert.equal(decryptBuffer(encrypted, { passphrase: "secret" }).toString(), "ssn,123-45-6789");
+  });
+
+  it("rejects costly scrypt parameters before deriving the key", () => {
+    const encrypted = encryptBuffer(Buffer.from("data"), { passphrase: "secret" });
+    for (const params of [{ N: 1 << 30 }, { N: 32769 }, { r: 1024 }, { p: 64 }]) {
+      const crafted = withHeader(encrypted, (header) => Object.assign(header.keyWrap, params));
+      assert.throws(
+        () => decryptBuffer(crafted, { passphrase: "secret" }),
+        /Unsupported scrypt parameters/
+      );
+    }
+  });
+});
+
+describe("openDataset", () => {
+  it("appends the records of every page to one encrypted file", async () => {
+    const dataset = openDataset(
+      {
+        name: "workers",
+        sheetName: "Workers",
+        columns: [
+          { id: "worker_id", title: "Worker ID" },
+          { id: "first_name", title: "First Name" },
+        ],
+      },
+      { outputDir: createTempDir(), encryption: { passphrase: "secret" } }
+    );
+    await dataset.append([{ worker_id: "wrk_1", first_name: "Ada" }]);
+    await dataset.append([]);
+    await dataset.append([{ worker_id: "wrk_2", first_name: "Alan, Jr" }]);
+    const outputPath = await dataset.close();
+
+    assert.match(outputPath, /workers\.csv\.enc$/);
+    assert.equal(
+      decryptBuffer(fs.readFileSync(outputPath), { passphrase: "secret" }).toString(),
+      'Worker ID,First Name\nwrk_1,Ada\nwrk_2,"Alan, Jr"\n'
+    );
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("keeps the input order when tasks finish out of order", async () => {
+    const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (ms, index) => {
+      await delay(ms);
+      return `${index}:${ms}`;
+    });
+    assert.deepEqual(results, ["0:30", "1:10", "2:20", "3:0"]);
+  });
+
+  it("never runs more tasks at once than the limit", async () => {
+    let active = 0;
+    let maxActive = 0;
+    await mapWithConcurrency([...Array(10).keys()], 3, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(5);
+      active--;
+    });
+    assert.equal(maxActive, 3);
+  });
+
+  it("rejects with the task error and keeps running the queued tasks", async () => {
+    const started: number[] = [];
+    await assert.rejects(
+      mapWithConcurrency([0, 1, 2, 3], 1, async (item) => {
+        started.push(item);
+        if (item === 1) {
+          throw new Error("task 1 failed");
+        }
+      }),
+      /task 1 failed/
+    );
+    await delay(5);
+    assert.deepEqual(started, [0, 1, 2, 3]);
+
+    const run = createConcurrencyLimit(1);
+    await assert.rejects(run(() => Promise.reject(new Error("first"))), /first/);
+    assert.equal(await run(async () => "second"), "second");
+  });
+
+  it("refuses a limit that is not a positive integer", () => {
+    for (const limit of [0, -1, 1.5, NaN]) {
+      assert.throws(() => createConcurrencyLimit(limit), /positive integer/);
+    }
+  });
+});